@@ -0,0 +1,35 @@
+import { NextRequest } from 'next/server';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { decodeToPreviews } from '@/lib/server/decode';
+import { decodeResultResponse, readDecodeRequest } from '@/lib/server/decode-request';
+import { errorResponse } from '@/lib/server/errors';
+import { MERGE_LIMITS } from '@/lib/server/limits';
+import { parseMultipartToDisk } from '@/lib/server/multipart';
+
+export const maxDuration = 60; // Allow up to 60 seconds for processing
+
+// Decode a HEIC, TIFF, PDF, SVG or camera RAW upload into a zip of PNG page previews the browser can show
+export async function POST(request: NextRequest) {
+  // The upload and the previews live here until the zip is sent
+  const workDir = await mkdtemp(path.join(tmpdir(), 'decode-'));
+  const cleanup = () => {
+    rm(workDir, { recursive: true, force: true }).catch(() => {});
+  };
+  let streaming = false;
+
+  try {
+    const { fields, files: uploads } = await parseMultipartToDisk(request, workDir, MERGE_LIMITS);
+    const { image, baseName, density } = readDecodeRequest(fields, uploads);
+    const pages = await decodeToPreviews(image, baseName, density, workDir, MERGE_LIMITS);
+
+    const response = await decodeResultResponse(baseName, pages, workDir, cleanup);
+    streaming = true;
+    return response;
+  } catch (error) {
+    return errorResponse(error);
+  } finally {
+    if (!streaming) cleanup();
+  }
+}
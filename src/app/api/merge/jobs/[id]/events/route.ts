@@ -0,0 +1,53 @@
+import { NextRequest } from 'next/server';
+import { isFinished, type JobState } from '@/lib/merge-job';
+import { errorResponse } from '@/lib/server/errors';
+import { getJob, jobState, subscribe, type MergeJob } from '@/lib/server/jobs';
+
+// EventSource reconnects by itself, so long jobs outliving this just resume
+export const maxDuration = 60;
+
+// Server-sent events with the job state on every change, ending once it finishes
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  let job: MergeJob;
+  try {
+    job = getJob((await params).id);
+  } catch (error) {
+    return errorResponse(error);
+  }
+
+  const encoder = new TextEncoder();
+  let unsubscribe = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (state: JobState) => {
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(state)}\n\n`));
+        } catch {
+          // The client went away between the abort and this update
+          unsubscribe();
+          return;
+        }
+        if (isFinished(state.status)) {
+          unsubscribe();
+          controller.close();
+        }
+      };
+
+      unsubscribe = subscribe(job, send);
+      request.signal.addEventListener('abort', () => unsubscribe());
+      send(jobState(job));
+    },
+    cancel() {
+      unsubscribe();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,24 @@
+import { NextRequest } from 'next/server';
+import { errorResponse, MergeApiError } from '@/lib/server/errors';
+import { getJob } from '@/lib/server/jobs';
+import { mergeResultResponse } from '@/lib/server/merge-request';
+
+// Download the merged image (or zip of pages) of a finished job
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const job = getJob((await params).id);
+    if (job.status !== 'done') {
+      throw new MergeApiError('job_not_ready', `Merge job is ${job.status}`, 409);
+    }
+
+    // The files stay with the job until it expires, so nothing to clean up here
+    return await mergeResultResponse(
+      job.outputPaths,
+      job.request.settings.output,
+      () => {},
+      job.request.groups !== undefined
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/server/errors';
+import { cancelJob, getJob, jobState } from '@/lib/server/jobs';
+
+// Current status, phase and progress of a job
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const job = getJob((await params).id);
+    return NextResponse.json(jobState(job));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Cancel a queued or running job
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const job = getJob((await params).id);
+    cancelJob(job);
+    return NextResponse.json(jobState(job));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
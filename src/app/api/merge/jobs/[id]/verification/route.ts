@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, MergeApiError } from '@/lib/server/errors';
+import { getJob } from '@/lib/server/jobs';
+
+// Verification report of a finished job that was merged with `verify` on
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const job = getJob((await params).id);
+    if (job.status !== 'done') {
+      throw new MergeApiError('job_not_ready', `Merge job is ${job.status}`, 409);
+    }
+    if (!job.verification) {
+      throw new MergeApiError('not_verified', 'This merge was not verified', 404);
+    }
+    return NextResponse.json(job.verification);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
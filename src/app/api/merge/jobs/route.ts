@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { errorResponse } from '@/lib/server/errors';
+import { createJob, jobState } from '@/lib/server/jobs';
+import { MERGE_LIMITS } from '@/lib/server/limits';
+import { readMergeRequest } from '@/lib/server/merge-request';
+import { parseMultipartToDisk } from '@/lib/server/multipart';
+
+export const maxDuration = 60; // Only the upload happens within this request
+
+// Upload the images and queue a merge; progress is followed through /api/merge/jobs/[id]
+export async function POST(request: NextRequest) {
+  const workDir = await mkdtemp(path.join(tmpdir(), 'merge-'));
+  let queued = false;
+
+  try {
+    // Everything is validated here so bad requests fail fast rather than as a job
+    const { fields, files: uploads } = await parseMultipartToDisk(request, workDir, MERGE_LIMITS);
+    const mergeRequest = await readMergeRequest(fields, uploads, MERGE_LIMITS);
+
+    const job = createJob(mergeRequest, workDir);
+    queued = true;
+    return NextResponse.json(jobState(job), { status: 202 });
+  } catch (error) {
+    return errorResponse(error);
+  } finally {
+    // Once queued, the job owns the directory
+    if (!queued) rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest } from 'next/server';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { errorResponse } from '@/lib/server/errors';
+import { MERGE_LIMITS } from '@/lib/server/limits';
+import { parseMultipartToDisk } from '@/lib/server/multipart';
+import { splitToFiles } from '@/lib/server/split';
+import { readSplitRequest, splitResultResponse } from '@/lib/server/split-request';
+
+export const maxDuration = 60; // Allow up to 60 seconds for processing
+
+export async function POST(request: NextRequest) {
+  // The upload, the decoded source and the tiles all live here until the zip is sent
+  const workDir = await mkdtemp(path.join(tmpdir(), 'split-'));
+  const cleanup = () => {
+    rm(workDir, { recursive: true, force: true }).catch(() => {});
+  };
+  let streaming = false;
+
+  try {
+    const { fields, files: uploads } = await parseMultipartToDisk(request, workDir, MERGE_LIMITS);
+    const { image, baseName, spec } = await readSplitRequest(fields, uploads, MERGE_LIMITS);
+    const outputs = await splitToFiles(image.path, baseName, spec, workDir);
+
+    const response = await splitResultResponse(baseName, outputs, cleanup);
+    streaming = true;
+    return response;
+  } catch (error) {
+    return errorResponse(error);
+  } finally {
+    if (!streaming) cleanup();
+  }
+}
@@ -1,49 +1,316 @@
 'use client';
 
-import { useState, useRef } from 'react';
-
-type AlignmentMode = 'horizontal' | 'vertical' | 'grid';
+import { useMemo, useState, useRef } from 'react';
+import { unzipSync } from 'fflate';
+import {
+  BATCH_MODE_LABELS,
+  DEFAULT_BATCH_OPTIONS,
+  fileFolder,
+  groupImages,
+  type BatchGroup,
+  type BatchMode,
+  type BatchOptions,
+} from '@/lib/batch';
+import {
+  computeLayout,
+  LayoutError,
+  paginate,
+  type AlignDimension,
+  type AlignmentMode,
+  type CaptionPosition,
+  type CrossAlign,
+  type GridFit,
+  type GridOverflow,
+  type Layout,
+  type LayoutOptions,
+  type Size,
+} from '@/lib/layout';
+import {
+  canvasMimeType,
+  estimateOutputBytes,
+  formatBytes,
+  isLossless,
+  DEFAULT_OUTPUT_OPTIONS,
+  OUTPUT_FORMATS,
+  type ColorProfile,
+  type OutputFormat,
+  type OutputOptions,
+  type TiffCompression,
+} from '@/lib/output-format';
+import {
+  CAPTION_PRESETS,
+  captionBandHeight,
+  DEFAULT_CAPTION_OPTIONS,
+  MAX_CAPTION_LENGTH,
+  type CaptionOptions,
+} from '@/lib/captions';
+import { editedSize, isIdentityEdit, IDENTITY_EDIT, type ImageEdit } from '@/lib/image-edit';
+import { moveItem, readCaptureTime, sortImages, SORT_LABELS, type SortKey } from '@/lib/image-order';
+import {
+  ACCEPTED_INPUTS,
+  DECODE_MANIFEST_NAME,
+  DEFAULT_DECODE_DENSITY,
+  MAX_DECODE_DENSITY,
+  needsServerDecode,
+  type DecodedPageInfo,
+} from '@/lib/decode';
+import { describeMergeError, isMergeErrorBody } from '@/lib/merge-errors';
+import { formatProgress, isFinished, type JobState, type MergeProgress } from '@/lib/merge-job';
+import { canMergeInWorker, mergeInWorker, type ClientMergeResult } from '@/lib/client-merge';
+import { DEFAULT_PREPROCESS_OPTIONS, needsPreprocessing, type PreprocessOptions } from '@/lib/preprocess';
+import { toFormFields, type MergeParams } from '@/lib/presets';
+import { readPyramid, PYRAMID_TILE_SIZE, type Pyramid, type PyramidLayout } from '@/lib/pyramid';
+import { openZip, type ZipReader } from '@/lib/zip-reader';
+import {
+  DEFAULT_WATERMARK_OPTIONS,
+  MAX_WATERMARK_TEXT_LENGTH,
+  WATERMARK_POSITIONS,
+  type WatermarkKind,
+  type WatermarkOptions,
+  type WatermarkPosition,
+  type WatermarkTarget,
+} from '@/lib/watermark';
+import { buildVerificationReport, type VerificationReport } from '@/lib/verify';
+import EditedPreview from '@/components/EditedPreview';
+import ImageEditor from '@/components/ImageEditor';
+import LayoutPreview from '@/components/LayoutPreview';
+import PresetsPanel from '@/components/PresetsPanel';
+import PyramidViewer from '@/components/PyramidViewer';
+import SplitPanel from '@/components/SplitPanel';
+import VerificationReportView from '@/components/VerificationReportView';
 
 interface ImageData {
-  file: File;
+  file: File;  // The upload, which merges read; for pages the server decoded, the whole original file
+  name: string;
+  url: string;
+  img: HTMLImageElement;  // Downscaled for pages the server decoded
+  size: Size;  // Full-resolution upright size, which edits are measured in
+  capturedAt: number;  // EXIF capture time, or the file's modification time
+  edit: ImageEdit;
+  decoded?: { page: number; density: number };  // Page of `file` the server decoded, 1-based
+}
+
+// A page preview the server decoded from an upload the browser cannot show
+interface DecodedPreview {
+  preview: File;
+  size: Size;
+  page: number;
+}
+
+interface PyramidResult {
+  pyramid: Pyramid;
+  zip: ZipReader;
   url: string;
-  img: HTMLImageElement;
 }
 
 export default function Home() {
+  const [tab, setTab] = useState<'merge' | 'split'>('merge');
   const [images, setImages] = useState<ImageData[]>([]);
   const [alignmentMode, setAlignmentMode] = useState<AlignmentMode>('horizontal');
   const [gridRows, setGridRows] = useState(2);
   const [gridCols, setGridCols] = useState(2);
+  const [gridFit, setGridFit] = useState<GridFit>('manual');
+  const [gridOverflow, setGridOverflow] = useState<GridOverflow>('grow');
+  const [rowHeight, setRowHeight] = useState(400);
+  const [masonryCols, setMasonryCols] = useState(3);
   const [resizeWidth, setResizeWidth] = useState<number | ''>('');
   const [resizeHeight, setResizeHeight] = useState<number | ''>('');
-  const [alignDimension, setAlignDimension] = useState<'none' | 'width' | 'height'>('none');
-  const [mergedImage, setMergedImage] = useState<string | null>(null);
+  const [alignDimension, setAlignDimension] = useState<AlignDimension>('none');
+  const [spacing, setSpacing] = useState(0);
+  const [padding, setPadding] = useState(0);
+  const [alignX, setAlignX] = useState<CrossAlign>('start');
+  const [alignY, setAlignY] = useState<CrossAlign>('start');
+  const [trimBorders, setTrimBorders] = useState(DEFAULT_PREPROCESS_OPTIONS.trimBorders);
+  const [trimThreshold, setTrimThreshold] = useState(DEFAULT_PREPROCESS_OPTIONS.trimThreshold);
+  const [stitchOverlap, setStitchOverlap] = useState(DEFAULT_PREPROCESS_OPTIONS.stitchOverlap);
+  const [captionTemplate, setCaptionTemplate] = useState(DEFAULT_CAPTION_OPTIONS.template);
+  const [captionPosition, setCaptionPosition] = useState<CaptionPosition>(DEFAULT_CAPTION_OPTIONS.position);
+  const [captionFontSize, setCaptionFontSize] = useState(DEFAULT_CAPTION_OPTIONS.fontSize);
+  const [captionColor, setCaptionColor] = useState(DEFAULT_CAPTION_OPTIONS.color);
+  const [watermarkKind, setWatermarkKind] = useState<WatermarkKind>(DEFAULT_WATERMARK_OPTIONS.kind);
+  const [watermarkTarget, setWatermarkTarget] = useState<WatermarkTarget>(DEFAULT_WATERMARK_OPTIONS.target);
+  const [watermarkText, setWatermarkText] = useState(DEFAULT_WATERMARK_OPTIONS.text);
+  const [watermarkColor, setWatermarkColor] = useState(DEFAULT_WATERMARK_OPTIONS.color);
+  const [watermarkPosition, setWatermarkPosition] = useState<WatermarkPosition>(DEFAULT_WATERMARK_OPTIONS.position);
+  const [watermarkOpacity, setWatermarkOpacity] = useState(DEFAULT_WATERMARK_OPTIONS.opacity);
+  const [watermarkScale, setWatermarkScale] = useState(DEFAULT_WATERMARK_OPTIONS.scale);
+  const [watermarkTile, setWatermarkTile] = useState(DEFAULT_WATERMARK_OPTIONS.tile);
+  const [watermarkMargin, setWatermarkMargin] = useState(DEFAULT_WATERMARK_OPTIONS.margin);
+  const [watermarkImage, setWatermarkImage] = useState<{ file: File; img: HTMLImageElement } | null>(null);
+  const [watermarkError, setWatermarkError] = useState<string | null>(null);
+  const [transparentBackground, setTransparentBackground] = useState(true);
+  const [backgroundColor, setBackgroundColor] = useState('#ffffff');
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>(DEFAULT_OUTPUT_OPTIONS.format);
+  const [lossless, setLossless] = useState(DEFAULT_OUTPUT_OPTIONS.lossless);
+  const [quality, setQuality] = useState(DEFAULT_OUTPUT_OPTIONS.quality);
+  const [compressionLevel, setCompressionLevel] = useState(DEFAULT_OUTPUT_OPTIONS.compressionLevel);
+  const [tiffCompression, setTiffCompression] = useState<TiffCompression>(DEFAULT_OUTPUT_OPTIONS.tiffCompression);
+  const [preserveBitDepth, setPreserveBitDepth] = useState(DEFAULT_OUTPUT_OPTIONS.preserveBitDepth);
+  const [colorProfile, setColorProfile] = useState<ColorProfile>(DEFAULT_OUTPUT_OPTIONS.colorProfile);
+  const [keepMetadata, setKeepMetadata] = useState(DEFAULT_OUTPUT_OPTIONS.keepMetadata);
+  const [pyramid, setPyramid] = useState<PyramidLayout>(DEFAULT_OUTPUT_OPTIONS.pyramid);
+  const [verify, setVerify] = useState(false);
+  const [verification, setVerification] = useState<VerificationReport | null>(null);
+  const [mergedImages, setMergedImages] = useState<string[]>([]);
+  const [pyramidResult, setPyramidResult] = useState<PyramidResult | null>(null);
+  const [batchMode, setBatchMode] = useState<BatchMode>(DEFAULT_BATCH_OPTIONS.mode);
+  const [batchSize, setBatchSize] = useState(DEFAULT_BATCH_OPTIONS.groupSize);
+  const [batchPattern, setBatchPattern] = useState(DEFAULT_BATCH_OPTIONS.pattern);
+  const [batchResult, setBatchResult] = useState<{ url: string; names: string[] } | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [mergeError, setMergeError] = useState<string | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [jobProgress, setJobProgress] = useState<MergeProgress | null>(null);
+  const [clientMerge, setClientMerge] = useState<AbortController | null>(null);
+  const [sortKey, setSortKey] = useState<SortKey | null>(null);
+  const [sortDescending, setSortDescending] = useState(false);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const dragIndex = useRef<number | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [decodeDensity, setDecodeDensity] = useState(DEFAULT_DECODE_DENSITY);
+  const [decodingFile, setDecodingFile] = useState<string | null>(null);
+  const [addErrors, setAddErrors] = useState<string[]>([]);
+
+  // Load a file into an <img>, rejecting when the browser cannot decode it
+  const loadFile = async (file: File): Promise<{ url: string; img: HTMLImageElement }> => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    try {
+      await new Promise((resolve, reject) => {
+        img.onload = resolve;
+        img.onerror = () => reject(new Error(`${file.name} cannot be displayed by this browser`));
+        img.src = url;
+      });
+    } catch (error) {
+      URL.revokeObjectURL(url);
+      throw error;
+    }
+    return { url, img };
+  };
+
+  // Have the server decode a file into PNG previews, one per page
+  const decodeOnServer = async (file: File): Promise<DecodedPreview[]> => {
+    const formData = new FormData();
+    formData.append('density', String(decodeDensity));
+    formData.append('image', file);
+
+    const response = await fetch('/api/decode', {
+      method: 'POST',
+      body: formData,
+    });
+    if (!response.ok) {
+      throw await responseError(response, `Failed to decode ${file.name}`);
+    }
+
+    const entries = unzipSync(new Uint8Array(await response.arrayBuffer()));
+    const pages = JSON.parse(new TextDecoder().decode(entries[DECODE_MANIFEST_NAME])) as DecodedPageInfo[];
+    return pages.map(({ name, width, height }, i) => ({
+      preview: new File([entries[name] as BlobPart], name, { type: 'image/png', lastModified: file.lastModified }),
+      size: { width, height },
+      page: i + 1,
+    }));
+  };
+
+  const addFiles = async (files: FileList | File[]) => {
+    const newImages: ImageData[] = [];
+    const errors: string[] = [];
+
+    for (const file of Array.from(files)) {
+      const serverDecoded = needsServerDecode(file);
+      if (!serverDecoded && !file.type.startsWith('image/')) continue;
+
+      try {
+        // Read from the original, since decoded pages carry no EXIF
+        const capturedAt = await readCaptureTime(file);
+        const loaded = serverDecoded ? null : await loadFile(file).catch(() => null);
+        if (loaded) {
+          const size = { width: loaded.img.width, height: loaded.img.height };
+          newImages.push({ file, name: file.name, ...loaded, size, capturedAt, edit: IDENTITY_EDIT });
+          continue;
+        }
+
+        // Formats the browser cannot read, multi-page files and vector images are previewed by the server,
+        // which merges them from the original
+        setDecodingFile(file.name);
+        const density = decodeDensity;
+        for (const { preview, size, page } of await decodeOnServer(file)) {
+          newImages.push({
+            file,
+            name: preview.name,
+            ...(await loadFile(preview)),
+            size,
+            capturedAt,
+            edit: IDENTITY_EDIT,
+            decoded: { page, density },
+          });
+        }
+      } catch (error) {
+        console.error(`Could not add ${file.name}:`, error);
+        errors.push(error instanceof Error ? error.message : `Could not add ${file.name}`);
+      }
+    }
+    setDecodingFile(null);
+    setAddErrors(errors);
+
+    setImages(prev => [...prev, ...newImages]);
+    // New images go at the end, so the queue is no longer sorted
+    if (newImages.length > 0) setSortKey(null);
+  };
 
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (!files) return;
+    await addFiles(files);
+  };
 
-    const newImages: ImageData[] = [];
+  // Dropping files anywhere on the merge page adds them to the queue
+  const isFileDrag = (e: React.DragEvent) => tab === 'merge' && e.dataTransfer.types.includes('Files');
 
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i];
-      if (!file.type.startsWith('image/')) continue;
+  const handlePageDragOver = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDraggingFiles(true);
+  };
 
-      const url = URL.createObjectURL(file);
-      const img = new Image();
+  const handlePageDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsDraggingFiles(false);
+    }
+  };
 
-      await new Promise((resolve) => {
-        img.onload = resolve;
-        img.src = url;
-      });
+  const handlePageDrop = async (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    await addFiles(e.dataTransfer.files);
+  };
 
-      newImages.push({ file, url, img });
-    }
+  const moveImage = (from: number, to: number) => {
+    if (from === to) return;
+    setImages(prev => moveItem(prev, from, to));
+    setSortKey(null);
+  };
 
-    setImages(prev => [...prev, ...newImages]);
+  // Sort by `key`; choosing the active key again reverses the order
+  const sortBy = (key: SortKey) => {
+    const descending = key === sortKey && !sortDescending;
+    setImages(prev =>
+      sortImages(
+        prev,
+        key,
+        ({ name, size, capturedAt, edit }) => ({ name, capturedAt, ...editedSize(size, edit) }),
+        descending
+      )
+    );
+    setSortKey(key);
+    setSortDescending(descending);
+  };
+
+  const updateEdit = (index: number, edit: ImageEdit) => {
+    setImages(prev => prev.map((image, i) => (i === index ? { ...image, edit } : image)));
   };
 
   const removeImage = (index: number) => {
@@ -56,42 +323,245 @@ export default function Home() {
   const clearAll = () => {
     images.forEach(img => URL.revokeObjectURL(img.url));
     setImages([]);
-    setMergedImage(null);
+    setAddErrors([]);
+    mergedImages.forEach((url) => URL.revokeObjectURL(url));
+    setMergedImages([]);
+    setPyramidResult(null);
+    setBatchResult(null);
+    setVerification(null);
+    setMergeError(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
   };
 
+  const getBatchOptions = (): BatchOptions => ({
+    mode: batchMode,
+    groupSize: batchSize,
+    pattern: batchPattern,
+  });
+
+  // Batch groups of the current queue, or null for a single merge
+  let batchGroups: BatchGroup[] | null = null;
+  let batchError: string | null = null;
+  try {
+    batchGroups = groupImages(
+      images.map(({ name, file }) => ({ name, folder: fileFolder(file) })),
+      getBatchOptions()
+    );
+  } catch {
+    batchError = 'The filename pattern is not a valid regular expression';
+  }
+
+  const getLayoutOptions = (): LayoutOptions => ({
+    alignmentMode,
+    gridRows,
+    gridCols,
+    gridFit,
+    gridOverflow,
+    rowHeight,
+    masonryCols,
+    resizeWidth: resizeWidth === '' ? undefined : resizeWidth,
+    resizeHeight: resizeHeight === '' ? undefined : resizeHeight,
+    alignDimension,
+    spacing,
+    padding,
+    alignX,
+    alignY,
+    captionHeight: captionBandHeight(getCaptionOptions()),
+    captionPosition,
+  });
+
+  const getCaptionOptions = (): CaptionOptions => ({
+    template: captionTemplate,
+    position: captionPosition,
+    fontSize: captionFontSize,
+    color: captionColor,
+  });
+
+  const getWatermarkOptions = (): WatermarkOptions => ({
+    kind: watermarkKind,
+    target: watermarkTarget,
+    text: watermarkText,
+    color: watermarkColor,
+    position: watermarkPosition,
+    opacity: watermarkOpacity,
+    scale: watermarkScale,
+    tile: watermarkTile,
+    margin: watermarkMargin,
+  });
+
+  // An overlay is only applied once it has something to draw
+  const hasWatermark =
+    (watermarkKind === 'image' && watermarkImage !== null) ||
+    (watermarkKind === 'text' && watermarkText.trim() !== '');
+
+  const handleWatermarkSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    let img: HTMLImageElement;
+    try {
+      ({ img } = await loadFile(file));
+    } catch (error) {
+      // The previous watermark stays in use
+      setWatermarkError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    if (watermarkImage) URL.revokeObjectURL(watermarkImage.img.src);
+    setWatermarkImage({ file, img });
+    setWatermarkError(null);
+  };
+
+  const background = transparentBackground ? 'transparent' : backgroundColor;
+
+  // Overlap stitching only makes sense for a single row or column of images
+  const canStitch = alignmentMode === 'horizontal' || alignmentMode === 'vertical';
+
+  const getPreprocessOptions = (): PreprocessOptions => ({
+    trimBorders,
+    trimThreshold,
+    stitchOverlap: stitchOverlap && canStitch,
+  });
+
+  const getOutputOptions = (): OutputOptions => ({
+    format: outputFormat,
+    lossless,
+    quality,
+    compressionLevel,
+    tiffCompression,
+    preserveBitDepth,
+    colorProfile,
+    keepMetadata,
+    pyramid,
+  });
+
+  // Every merge setting, as sent to the server and stored in presets and share links
+  const getMergeParams = (): MergeParams => ({
+    alignmentMode,
+    gridRows,
+    gridCols,
+    gridFit,
+    gridOverflow,
+    rowHeight,
+    masonryCols,
+    resizeWidth: resizeWidth === '' ? null : resizeWidth,
+    resizeHeight: resizeHeight === '' ? null : resizeHeight,
+    alignDimension,
+    spacing,
+    padding,
+    alignX,
+    alignY,
+    background,
+    trimBorders,
+    trimThreshold,
+    stitchOverlap,
+    captionTemplate,
+    captionPosition,
+    captionFontSize,
+    captionColor,
+    watermark: watermarkKind,
+    watermarkTarget,
+    watermarkText,
+    watermarkColor,
+    watermarkPosition,
+    watermarkOpacity,
+    watermarkScale,
+    watermarkTile,
+    watermarkMargin,
+    ...getOutputOptions(),
+    verify,
+  });
+
+  const applyMergeParams = (params: MergeParams) => {
+    setAlignmentMode(params.alignmentMode);
+    setGridRows(params.gridRows);
+    setGridCols(params.gridCols);
+    setGridFit(params.gridFit);
+    setGridOverflow(params.gridOverflow);
+    setRowHeight(params.rowHeight);
+    setMasonryCols(params.masonryCols);
+    setResizeWidth(params.resizeWidth ?? '');
+    setResizeHeight(params.resizeHeight ?? '');
+    setAlignDimension(params.alignDimension);
+    setSpacing(params.spacing);
+    setPadding(params.padding);
+    setAlignX(params.alignX);
+    setAlignY(params.alignY);
+    setTransparentBackground(params.background === 'transparent');
+    if (params.background !== 'transparent') setBackgroundColor(params.background);
+    setTrimBorders(params.trimBorders);
+    setTrimThreshold(params.trimThreshold);
+    setStitchOverlap(params.stitchOverlap);
+    setCaptionTemplate(params.captionTemplate);
+    setCaptionPosition(params.captionPosition);
+    setCaptionFontSize(params.captionFontSize);
+    setCaptionColor(params.captionColor);
+    setWatermarkKind(params.watermark);
+    setWatermarkTarget(params.watermarkTarget);
+    setWatermarkText(params.watermarkText);
+    setWatermarkColor(params.watermarkColor);
+    setWatermarkPosition(params.watermarkPosition);
+    setWatermarkOpacity(params.watermarkOpacity);
+    setWatermarkScale(params.watermarkScale);
+    setWatermarkTile(params.watermarkTile);
+    setWatermarkMargin(params.watermarkMargin);
+    setOutputFormat(params.format);
+    setLossless(params.lossless);
+    setQuality(params.quality);
+    setCompressionLevel(params.compressionLevel);
+    setTiffCompression(params.tiffCompression);
+    setPreserveBitDepth(params.preserveBitDepth);
+    setColorProfile(params.colorProfile);
+    setKeepMetadata(params.keepMetadata);
+    setPyramid(params.pyramid);
+    setVerify(params.verify);
+  };
+
+  // One layout per output page of the queue, or of some of its images; only paginated grids produce more than one
+  const computeCurrentPages = (queue = images.map((_, i) => i)): Array<{ indices: number[]; layout: Layout }> => {
+    const options = getLayoutOptions();
+    return paginate(queue.length, options).map((page) => {
+      const indices = page.map((i) => queue[i]);
+      return {
+        indices,
+        layout: computeLayout(
+          indices.map((i) => editedSize(images[i].size, images[i].edit)),
+          options
+        ),
+      };
+    });
+  };
+
+  // Why these pages have to be merged on the server, or null when the browser can do it
+  const serverProcessingReason = (pages: Array<{ indices: number[]; layout: Layout }>): string | null => {
+    if (!canMergeInWorker()) return 'this browser cannot merge in the background';
+    if (pages.some(({ indices }) => indices.some((i) => images[i].decoded))) {
+      return 'some images can only be decoded by the server';
+    }
+    // Calculate expected canvas size of the largest page
+    const expectedPixels = Math.max(...pages.map(({ layout }) => layout.width * layout.height));
+    const MAX_CANVAS_AREA = 268435456; // 16384 x 16384
+    if (expectedPixels > MAX_CANVAS_AREA) return 'the result is larger than a browser canvas';
+    if (canvasMimeType(getOutputOptions()) === null) return 'the browser cannot encode this output format';
+    if (needsPreprocessing(getPreprocessOptions())) return 'borders are trimmed or overlaps stitched';
+    if (batchGroups !== null) return 'batches are merged on the server';
+    return null;
+  };
+
   const mergeImages = async () => {
     if (images.length === 0) return;
 
     setIsProcessing(true);
+    mergedImages.forEach((url) => URL.revokeObjectURL(url));
+    setMergedImages([]);
+    setPyramidResult(null);
+    setBatchResult(null);
+    setVerification(null);
+    setMergeError(null);
 
     try {
-      // Calculate expected canvas size
-      let expectedWidth = 0;
-      let expectedHeight = 0;
-
-      if (alignmentMode === 'horizontal') {
-        expectedWidth = images.reduce((sum, img) => sum + img.img.width, 0);
-        expectedHeight = Math.max(...images.map(img => img.img.height));
-      } else if (alignmentMode === 'vertical') {
-        expectedWidth = Math.max(...images.map(img => img.img.width));
-        expectedHeight = images.reduce((sum, img) => sum + img.img.height, 0);
-      } else if (alignmentMode === 'grid') {
-        const cellWidth = Math.max(...images.map(img => img.img.width));
-        const cellHeight = Math.max(...images.map(img => img.img.height));
-        expectedWidth = cellWidth * gridCols;
-        expectedHeight = cellHeight * gridRows;
-      }
-
-      const expectedPixels = expectedWidth * expectedHeight;
-      const MAX_CANVAS_AREA = 268435456; // 16384 x 16384
-      const needsServerProcessing =
-        expectedPixels > MAX_CANVAS_AREA ||
-        alignDimension !== 'none' ||
-        resizeWidth !== '' ||
-        resizeHeight !== '';
+      const needsServerProcessing = serverProcessingReason(computeCurrentPages()) !== null;
 
       if (needsServerProcessing) {
         console.log('Canvas too large or special processing needed, using server-side processing...');
@@ -107,7 +577,7 @@ export default function Home() {
       }
     } catch (error) {
       console.error('Error merging images:', error);
-      alert(`Error merging images: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setMergeError(error instanceof Error ? error.message : 'Unknown error');
     } finally {
       setIsProcessing(false);
     }
@@ -115,102 +585,246 @@ export default function Home() {
 
   const mergeImagesServer = async () => {
     const formData = new FormData();
-    formData.append('alignmentMode', alignmentMode);
-    formData.append('gridRows', gridRows.toString());
-    formData.append('gridCols', gridCols.toString());
-    if (resizeWidth !== '') formData.append('resizeWidth', resizeWidth.toString());
-    if (resizeHeight !== '') formData.append('resizeHeight', resizeHeight.toString());
-    formData.append('alignDimension', alignDimension);
+    const params: MergeParams = {
+      ...getMergeParams(),
+      stitchOverlap: getPreprocessOptions().stitchOverlap,
+      // A watermark without an image or text is not sent
+      watermark: hasWatermark ? watermarkKind : 'none',
+      // Tile pyramids are not verified
+      verify: verify && pyramid === 'none',
+    };
+    toFormFields(params).forEach(([name, value]) => formData.append(name, value));
+    if (params.watermark === 'image' && watermarkImage) {
+      formData.append('watermarkImage', watermarkImage.file);
+    }
 
+    // Pages the server decoded point to one upload of their document
+    const sources = new Map<File, number>();
     images.forEach((img, index) => {
-      formData.append(`image-${index}`, img.file);
+      if (img.decoded) {
+        if (!sources.has(img.file)) {
+          formData.append(`source-${sources.size}`, img.file);
+          sources.set(img.file, sources.size);
+        }
+        formData.append(`pageSource-${index}`, String(sources.get(img.file)));
+        formData.append(`page-${index}`, String(img.decoded.page));
+        formData.append(`density-${index}`, String(img.decoded.density));
+      } else {
+        formData.append(`image-${index}`, img.file);
+      }
+      if (!isIdentityEdit(img.edit)) {
+        formData.append(`edit-${index}`, JSON.stringify(img.edit));
+      }
+    });
+    batchGroups?.forEach((group) => {
+      group.indices.forEach((index) => formData.append(`group-${index}`, group.name));
     });
 
-    const response = await fetch('/api/merge', {
+    const created = await fetch('/api/merge/jobs', {
       method: 'POST',
       body: formData,
     });
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to merge images');
+    if (!created.ok) {
+      throw await responseError(created, 'Failed to merge images');
     }
 
-    const blob = await response.blob();
-    const url = URL.createObjectURL(blob);
-    console.log('Successfully merged images on server');
-    setMergedImage(url);
-  };
+    const { id } = (await created.json()) as JobState;
+    setJobId(id);
+    setJobProgress(null);
 
-  const mergeImagesClient = async () => {
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d', { alpha: true });
-    if (!ctx) throw new Error('Could not get canvas context');
-
-    let canvasWidth = 0;
-    let canvasHeight = 0;
-
-    if (alignmentMode === 'horizontal') {
-      canvasWidth = images.reduce((sum, img) => sum + img.img.width, 0);
-      canvasHeight = Math.max(...images.map(img => img.img.height));
-    } else if (alignmentMode === 'vertical') {
-      canvasWidth = Math.max(...images.map(img => img.img.width));
-      canvasHeight = images.reduce((sum, img) => sum + img.img.height, 0);
-    } else if (alignmentMode === 'grid') {
-      const cellWidth = Math.max(...images.map(img => img.img.width));
-      const cellHeight = Math.max(...images.map(img => img.img.height));
-      canvasWidth = cellWidth * gridCols;
-      canvasHeight = cellHeight * gridRows;
+    let job: JobState;
+    try {
+      job = await followJob(id);
+    } finally {
+      setJobId(null);
+      setJobProgress(null);
     }
 
-    canvas.width = canvasWidth;
-    canvas.height = canvasHeight;
+    if (job.status === 'cancelled') {
+      console.log('Merge cancelled');
+      return;
+    }
+    if (job.status === 'failed') {
+      throw new Error(job.error ? describeMergeError(job.error) : 'Failed to merge images');
+    }
 
-    // Verify canvas was created
-    if (canvas.width === 0 || canvas.height === 0 || canvas.width !== canvasWidth || canvas.height !== canvasHeight) {
-      throw new Error('Canvas creation failed - size too large');
+    if (params.verify) {
+      const report = await fetch(`/api/merge/jobs/${id}/verification`);
+      if (!report.ok) {
+        throw await responseError(report, 'Failed to download the verification report');
+      }
+      setVerification((await report.json()) as VerificationReport);
     }
 
-    if (alignmentMode === 'horizontal') {
-      let xOffset = 0;
-      images.forEach(({ img }) => {
-        ctx.drawImage(img, xOffset, 0);
-        xOffset += img.width;
-      });
-    } else if (alignmentMode === 'vertical') {
-      let yOffset = 0;
-      images.forEach(({ img }) => {
-        ctx.drawImage(img, 0, yOffset);
-        yOffset += img.height;
-      });
-    } else if (alignmentMode === 'grid') {
-      const cellWidth = Math.max(...images.map(img => img.img.width));
-      const cellHeight = Math.max(...images.map(img => img.img.height));
-      images.forEach(({ img }, index) => {
-        const row = Math.floor(index / gridCols);
-        const col = index % gridCols;
-        ctx.drawImage(img, col * cellWidth, row * cellHeight);
+    const response = await fetch(`/api/merge/jobs/${id}/result`);
+    if (!response.ok) {
+      throw await responseError(response, 'Failed to download merged image');
+    }
+
+    const blob = await response.blob();
+
+    if (batchGroups) {
+      // List the archive without extracting it; the outputs may be large
+      const names: string[] = [];
+      unzipSync(new Uint8Array(await blob.arrayBuffer()), {
+        filter: (file) => {
+          names.push(file.name);
+          return false;
+        },
       });
+      setBatchResult({ url: URL.createObjectURL(blob), names });
+      console.log('Successfully merged batch on server');
+      return;
     }
 
-    const dataUrl = canvas.toDataURL('image/png');
-    if (dataUrl.length < 100) {
-      throw new Error('Canvas rendering failed');
+    if (pyramid !== 'none') {
+      // Keep the archive for download and view its tiles in place, reading each one only when it is shown
+      const zip = await openZip(blob);
+      setPyramidResult({ pyramid: await readPyramid(zip), zip, url: URL.createObjectURL(blob) });
+      console.log('Successfully built tile pyramid on server');
+      return;
+    }
+
+    let urls: string[];
+    if (blob.type === 'application/zip') {
+      // Paginated grid: one PNG per page inside the archive
+      const entries = unzipSync(new Uint8Array(await blob.arrayBuffer()));
+      urls = Object.values(entries).map((data) =>
+        URL.createObjectURL(new Blob([data as BlobPart], { type: OUTPUT_FORMATS[outputFormat].mimeType }))
+      );
+    } else {
+      urls = [URL.createObjectURL(blob)];
+    }
+    console.log('Successfully merged images on server');
+    setMergedImages(urls);
+  };
+
+  // Turn an API error response into an Error with a message worth showing
+  const responseError = async (response: Response, fallback: string): Promise<Error> => {
+    const body: unknown = await response.json().catch(() => null);
+    return new Error(isMergeErrorBody(body) ? describeMergeError(body) : fallback);
+  };
+
+  // Track a server job's progress until it finishes, resolving with its final state
+  const followJob = (id: string) =>
+    new Promise<JobState>((resolve, reject) => {
+      const events = new EventSource(`/api/merge/jobs/${id}/events`);
+      events.onmessage = (e) => {
+        const state = JSON.parse(e.data) as JobState;
+        setJobProgress(state.progress);
+        if (isFinished(state.status)) {
+          events.close();
+          resolve(state);
+        }
+      };
+      // EventSource retries on its own unless the connection was refused outright
+      events.onerror = () => {
+        if (events.readyState === EventSource.CLOSED) {
+          reject(new Error('Lost connection to the merge job'));
+        }
+      };
+    });
+
+  const cancelMerge = async () => {
+    clientMerge?.abort();
+    if (!jobId) return;
+    await fetch(`/api/merge/jobs/${jobId}`, { method: 'DELETE' });
+  };
+
+  // Merge in a Web Worker so large merges do not freeze the page
+  const mergeImagesClient = async () => {
+    const controller = new AbortController();
+    setClientMerge(controller);
+    setJobProgress(null);
+
+    let result: ClientMergeResult | null;
+    try {
+      result = await mergeInWorker(
+        {
+          images: images.map(({ file, edit }) => ({ file, edit })),
+          pages: computeCurrentPages(),
+          background,
+          output: getOutputOptions(),
+          captions: getCaptionOptions(),
+          // A watermark without an image or text is not drawn
+          watermark: { ...getWatermarkOptions(), kind: hasWatermark ? watermarkKind : 'none' },
+          watermarkImage: watermarkImage?.file,
+          verify,
+        },
+        { onProgress: setJobProgress, signal: controller.signal }
+      );
+    } finally {
+      setClientMerge(null);
+      setJobProgress(null);
     }
 
+    if (!result) {
+      console.log('Merge cancelled');
+      return;
+    }
     console.log('Successfully merged images on client');
-    setMergedImage(dataUrl);
+    setMergedImages(result.pages.map((page) => URL.createObjectURL(page)));
+    if (result.verification) {
+      setVerification(buildVerificationReport(result.verification));
+    }
   };
 
-  const downloadMergedImage = () => {
+  const downloadMergedImage = (index: number) => {
+    const mergedImage = mergedImages[index];
     if (!mergedImage) return;
 
     const link = document.createElement('a');
-    link.download = 'merged-image.png';
+    const { extension } = OUTPUT_FORMATS[outputFormat];
+    link.download = mergedImages.length > 1 ? `merged-image-${index + 1}.${extension}` : `merged-image.${extension}`;
     link.href = mergedImage;
     link.click();
   };
 
+  const downloadBatch = () => {
+    if (!batchResult) return;
+
+    const link = document.createElement('a');
+    link.download = 'merged-batch.zip';
+    link.href = batchResult.url;
+    link.click();
+  };
+
+  const downloadPyramid = () => {
+    if (!pyramidResult) return;
+
+    const link = document.createElement('a');
+    link.download = `merged-image-${pyramidResult.pyramid.layout}.zip`;
+    link.href = pyramidResult.url;
+    link.click();
+  };
+
+  // Layout the merge button would produce, for the live preview; a batch previews its first group
+  let previewPages: Array<{ indices: number[]; layout: Layout }> = [];
+  let previewError: string | null = null;
+  if (images.length > 0 && batchError === null) {
+    try {
+      previewPages = computeCurrentPages(batchGroups?.[0].indices);
+    } catch (error) {
+      if (!(error instanceof LayoutError)) throw error;
+      previewError = error.message;
+    }
+  }
+  const previewServerReason = previewPages.length > 0 ? serverProcessingReason(previewPages) : null;
+  // Laid out afresh on every render; the preview gets the same pages until they change, so it only redraws then
+  const previewKey = JSON.stringify(previewPages);
+  const stablePreviewPages = useMemo(() => JSON.parse(previewKey) as typeof previewPages, [previewKey]);
+
+  const estimatedBytes = (() => {
+    if (images.length === 0) return null;
+    try {
+      const pixels = computeCurrentPages().reduce((sum, { layout }) => sum + layout.width * layout.height, 0);
+      return estimateOutputBytes(pixels, getOutputOptions());
+    } catch {
+      return null;
+    }
+  })();
+
   return (
     <>
       {/* JSON-LD Structured Data for SEO */}
@@ -253,12 +867,59 @@ export default function Home() {
         }}
       />
 
-      <div className="min-h-screen p-8 bg-gray-50 dark:bg-gray-900">
+      <div
+        className="min-h-screen p-8 bg-gray-50 dark:bg-gray-900"
+        onDragOver={handlePageDragOver}
+        onDragLeave={handlePageDragLeave}
+        onDrop={handlePageDrop}
+      >
+        {editingIndex !== null && images[editingIndex] && (
+          <ImageEditor
+            key={images[editingIndex].url}
+            image={images[editingIndex].img}
+            size={images[editingIndex].size}
+            name={images[editingIndex].name}
+            edit={images[editingIndex].edit}
+            onApply={(edit) => {
+              updateEdit(editingIndex, edit);
+              setEditingIndex(null);
+            }}
+            onCancel={() => setEditingIndex(null)}
+          />
+        )}
+        {isDraggingFiles && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-blue-500/20 border-4 border-dashed border-blue-500 pointer-events-none">
+            <p className="px-6 py-3 bg-white dark:bg-gray-800 rounded-lg shadow-md text-lg font-semibold text-gray-900 dark:text-white">
+              Drop images to add them
+            </p>
+          </div>
+        )}
         <div className="max-w-6xl mx-auto">
           <h1 className="text-3xl font-bold mb-8 text-gray-900 dark:text-white">
             Lossless Image Merger
           </h1>
 
+          <div className="flex gap-2 mb-6">
+            {(['merge', 'split'] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setTab(option)}
+                className={`px-4 py-2 rounded-lg transition-colors capitalize ${
+                  tab === option
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-white hover:bg-gray-300 dark:hover:bg-gray-600'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+
+          {tab === 'split' && <SplitPanel />}
+
+        {tab === 'merge' && (
+        <>
+
         {/* File Upload Section */}
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6">
           <h2 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white">
@@ -268,13 +929,51 @@ export default function Home() {
             ref={fileInputRef}
             type="file"
             multiple
-            accept="image/*"
+            accept={ACCEPTED_INPUTS}
+            onChange={handleFileSelect}
+            className="block w-full text-sm text-gray-900 dark:text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100 dark:file:bg-blue-900 dark:file:text-blue-300"
+          />
+          <label className="block mt-4 mb-1 text-sm text-gray-900 dark:text-white">
+            Or add a whole folder (its subfolders can become batch groups)
+          </label>
+          <input
+            ref={(input) => input?.setAttribute('webkitdirectory', '')}
+            type="file"
+            multiple
             onChange={handleFileSelect}
             className="block w-full text-sm text-gray-900 dark:text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100 dark:file:bg-blue-900 dark:file:text-blue-300"
           />
           <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
-            Selected: {images.length} image(s)
+            Selected: {images.length} image(s). You can also drop files anywhere on the page.
           </p>
+          <label className="block mt-4 mb-1 text-sm text-gray-900 dark:text-white">
+            SVG and PDF Resolution (DPI)
+          </label>
+          <input
+            type="number"
+            min="1"
+            max={MAX_DECODE_DENSITY}
+            value={decodeDensity}
+            onChange={(e) => setDecodeDensity(Math.min(MAX_DECODE_DENSITY, Math.max(1, parseInt(e.target.value) || DEFAULT_DECODE_DENSITY)))}
+            className="w-32 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+          />
+          <p className="mt-2 text-xs text-gray-600 dark:text-gray-400">
+            HEIC, TIFF, PDF, SVG and camera RAW files are converted to lossless PNG on the server. Multi-page TIFFs
+            and PDFs add one image per page, and RAW files add the preview the camera embedded in them. At 72 DPI an
+            SVG keeps its own pixel size.
+          </p>
+          {decodingFile && (
+            <p className="mt-2 text-sm text-gray-900 dark:text-white">
+              Decoding {decodingFile} on the server...
+            </p>
+          )}
+          {addErrors.length > 0 && (
+            <ul className="mt-4 p-4 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-300 list-disc list-inside">
+              {addErrors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
           {images.length > 0 && (
             <button
               onClick={clearAll}
@@ -288,17 +987,82 @@ export default function Home() {
         {/* Image Preview */}
         {images.length > 0 && (
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6">
-            <h2 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white">
-              Selected Images
-            </h2>
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+                Selected Images
+              </h2>
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-gray-600 dark:text-gray-400">Sort by</span>
+                {(Object.keys(SORT_LABELS) as SortKey[]).map((key) => (
+                  <button
+                    key={key}
+                    onClick={() => sortBy(key)}
+                    className={`px-3 py-1 rounded-lg transition-colors ${
+                      sortKey === key
+                        ? 'bg-blue-500 text-white'
+                        : 'bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-white hover:bg-gray-300 dark:hover:bg-gray-600'
+                    }`}
+                  >
+                    {SORT_LABELS[key]}
+                    {sortKey === key && (sortDescending ? ' ↓' : ' ↑')}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <p className="mb-4 text-xs text-gray-600 dark:text-gray-400">
+              Drag images to change the merge order.
+            </p>
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
               {images.map((img, index) => (
-                <div key={index} className="relative group">
-                  <img
-                    src={img.url}
-                    alt={`Preview ${index + 1}`}
-                    className="w-full h-32 object-cover rounded-lg"
-                  />
+                <div
+                  key={img.url}
+                  draggable
+                  onDragStart={(e) => {
+                    dragIndex.current = index;
+                    e.dataTransfer.effectAllowed = 'move';
+                    e.dataTransfer.setData('text/plain', index.toString());
+                  }}
+                  onDragOver={(e) => {
+                    if (dragIndex.current === null) return;
+                    e.preventDefault();
+                    e.dataTransfer.dropEffect = 'move';
+                    setDropIndex(index);
+                  }}
+                  onDrop={(e) => {
+                    if (dragIndex.current === null) return;
+                    e.preventDefault();
+                    moveImage(dragIndex.current, index);
+                  }}
+                  onDragEnd={() => {
+                    dragIndex.current = null;
+                    setDropIndex(null);
+                  }}
+                  className={`relative group cursor-move rounded-lg ${
+                    dropIndex === index && dragIndex.current !== index ? 'ring-2 ring-blue-500' : ''
+                  }`}
+                >
+                  {isIdentityEdit(img.edit) ? (
+                    <img
+                      src={img.url}
+                      alt={`Preview ${index + 1}`}
+                      draggable={false}
+                      className="w-full h-32 object-cover rounded-lg"
+                    />
+                  ) : (
+                    <EditedPreview
+                      image={img.img}
+                      size={img.size}
+                      edit={img.edit}
+                      maxSize={256}
+                      className="w-full h-32 object-cover rounded-lg"
+                    />
+                  )}
+                  <button
+                    onClick={() => setEditingIndex(index)}
+                    className="absolute top-2 left-2 px-2 h-6 bg-blue-500 text-white text-xs rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+                  >
+                    Edit
+                  </button>
                   <button
                     onClick={() => removeImage(index)}
                     className="absolute top-2 right-2 bg-red-500 text-white rounded-full w-6 h-6 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
@@ -306,7 +1070,8 @@ export default function Home() {
                     ×
                   </button>
                   <p className="text-xs text-gray-600 dark:text-gray-400 mt-1 truncate">
-                    {img.img.width} × {img.img.height}
+                    {index + 1}. {img.name} · {editedSize(img.size, img.edit).width} × {editedSize(img.size, img.edit).height}
+                    {!isIdentityEdit(img.edit) && ' (edited)'}
                   </p>
                 </div>
               ))}
@@ -314,18 +1079,278 @@ export default function Home() {
           </div>
         )}
 
+        {/* Batch Section */}
+        {images.length > 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6">
+            <h2 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white">
+              Batch
+            </h2>
+            <div className="flex flex-wrap gap-2 mb-4">
+              {(Object.keys(BATCH_MODE_LABELS) as BatchMode[]).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => setBatchMode(mode)}
+                  className={`px-4 py-2 rounded-lg transition-colors ${
+                    batchMode === mode
+                      ? 'bg-blue-500 text-white'
+                      : 'bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-white hover:bg-gray-300 dark:hover:bg-gray-600'
+                  }`}
+                >
+                  {BATCH_MODE_LABELS[mode]}
+                </button>
+              ))}
+            </div>
+
+            {batchMode === 'count' && (
+              <label className="flex items-center gap-2 mb-4 text-sm text-gray-900 dark:text-white">
+                Images per group
+                <input
+                  type="number"
+                  min="1"
+                  value={batchSize}
+                  onChange={(e) => setBatchSize(Math.max(1, parseInt(e.target.value) || 1))}
+                  className="w-24 px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                />
+              </label>
+            )}
+            {batchMode === 'pattern' && (
+              <div className="mb-4">
+                <input
+                  type="text"
+                  value={batchPattern}
+                  onChange={(e) => setBatchPattern(e.target.value)}
+                  className="w-full px-3 py-2 font-mono border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                />
+                <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+                  Regular expression matched against each filename. The first capture group, or the whole match,
+                  names the group; the default groups by the text before the first _, -, . or space.
+                </p>
+              </div>
+            )}
+            {batchMode === 'folder' && (
+              <p className="mb-4 text-xs text-gray-600 dark:text-gray-400">
+                Groups images by the folder they were picked from. Use the folder picker above; dropped or
+                individually chosen files are grouped as &quot;ungrouped&quot;.
+              </p>
+            )}
+
+            {batchError && (
+              <p className="text-sm text-red-600 dark:text-red-400">{batchError}</p>
+            )}
+            {batchGroups && (
+              <>
+                <p className="mb-2 text-sm text-gray-600 dark:text-gray-400">
+                  {batchGroups.length} group{batchGroups.length === 1 ? '' : 's'}, each merged with the options below
+                  and downloaded together as a zip.
+                </p>
+                <div className="max-h-80 overflow-auto space-y-2">
+                  {batchGroups.map((group) => (
+                    <div key={group.name} className="p-2 bg-gray-100 dark:bg-gray-700 rounded-lg">
+                      <p className="mb-1 text-sm font-medium text-gray-900 dark:text-white truncate">
+                        {group.name} · {group.indices.length} image{group.indices.length === 1 ? '' : 's'}
+                      </p>
+                      <div className="flex gap-1 overflow-x-auto">
+                        {group.indices.map((index) => (
+                          <EditedPreview
+                            key={images[index].url}
+                            image={images[index].img}
+                            size={images[index].size}
+                            edit={images[index].edit}
+                            maxSize={96}
+                            className="h-12 w-auto flex-none rounded"
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Overlay Section */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white">
+            Overlay
+          </h2>
+          <div className="flex gap-2 mb-4">
+            {(['none', 'image', 'text'] as const).map((kind) => (
+              <button
+                key={kind}
+                onClick={() => setWatermarkKind(kind)}
+                className={`px-4 py-2 rounded-lg transition-colors capitalize ${
+                  watermarkKind === kind
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-white hover:bg-gray-300 dark:hover:bg-gray-600'
+                }`}
+              >
+                {kind === 'none' ? 'No overlay' : `${kind} watermark`}
+              </button>
+            ))}
+          </div>
+
+          {watermarkKind === 'image' && (
+            <div className="mb-4">
+              <input
+                type="file"
+                accept="image/*"
+                onChange={handleWatermarkSelect}
+                className="block w-full text-sm text-gray-900 dark:text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100 dark:file:bg-blue-900 dark:file:text-blue-300"
+              />
+              <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+                {watermarkImage
+                  ? `${watermarkImage.file.name} (${watermarkImage.img.width} × ${watermarkImage.img.height})`
+                  : 'Choose a logo, ideally a PNG with transparency.'}
+              </p>
+              {watermarkError && (
+                <p className="mt-2 text-sm text-red-600 dark:text-red-400">{watermarkError}</p>
+              )}
+            </div>
+          )}
+
+          {watermarkKind === 'text' && (
+            <div className="flex items-center gap-4 mb-4">
+              <input
+                type="text"
+                value={watermarkText}
+                maxLength={MAX_WATERMARK_TEXT_LENGTH}
+                placeholder="© Your name"
+                onChange={(e) => setWatermarkText(e.target.value)}
+                className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+              />
+              <input
+                type="color"
+                value={watermarkColor}
+                onChange={(e) => setWatermarkColor(e.target.value)}
+                className="h-9 w-16 border border-gray-300 dark:border-gray-600 rounded"
+              />
+            </div>
+          )}
+
+          {watermarkKind !== 'none' && (
+            <>
+              <div className="grid grid-cols-2 gap-4 mb-4">
+                <div>
+                  <label className="block text-sm mb-1 text-gray-900 dark:text-white">
+                    Apply To
+                  </label>
+                  <select
+                    value={watermarkTarget}
+                    onChange={(e) => setWatermarkTarget(e.target.value as WatermarkTarget)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                  >
+                    <option value="merged">Merged image</option>
+                    <option value="tile">Each image</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm mb-1 text-gray-900 dark:text-white">
+                    Position
+                  </label>
+                  <select
+                    value={watermarkPosition}
+                    disabled={watermarkTile}
+                    onChange={(e) => setWatermarkPosition(e.target.value as WatermarkPosition)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white capitalize disabled:opacity-50"
+                  >
+                    {WATERMARK_POSITIONS.map((position) => (
+                      <option key={position} value={position}>
+                        {position.replace('-', ' ')}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-4 mb-4">
+                <div>
+                  <label className="block text-sm mb-1 text-gray-900 dark:text-white">
+                    Opacity ({watermarkOpacity}%)
+                  </label>
+                  <input
+                    type="range"
+                    min="0"
+                    max="100"
+                    value={watermarkOpacity}
+                    onChange={(e) => setWatermarkOpacity(parseInt(e.target.value))}
+                    className="w-full"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm mb-1 text-gray-900 dark:text-white">
+                    Width ({watermarkScale}%)
+                  </label>
+                  <input
+                    type="range"
+                    min="1"
+                    max="100"
+                    value={watermarkScale}
+                    onChange={(e) => setWatermarkScale(parseInt(e.target.value))}
+                    className="w-full"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm mb-1 text-gray-900 dark:text-white">
+                    Margin (px)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={watermarkMargin}
+                    onChange={(e) => setWatermarkMargin(Math.max(0, parseInt(e.target.value) || 0))}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                  />
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-900 dark:text-white">
+                <input
+                  type="checkbox"
+                  checked={watermarkTile}
+                  onChange={(e) => setWatermarkTile(e.target.checked)}
+                />
+                Repeat across the {watermarkTarget === 'tile' ? 'image' : 'merged image'}
+              </label>
+            </>
+          )}
+        </div>
+
+        <PresetsPanel params={getMergeParams()} onApply={applyMergeParams} />
+
         {/* Options Section */}
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6">
           <h2 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white">
             Merge Options
           </h2>
 
+          {/* Live Layout Preview */}
+          {(previewPages.length > 0 || previewError) && (
+            <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
+              <h3 className="text-sm font-medium mb-3 text-gray-900 dark:text-white">
+                Preview{batchGroups && ` of group "${batchGroups[0].name}" (1 of ${batchGroups.length})`}
+              </h3>
+              {previewError ? (
+                <p className="text-sm text-red-600 dark:text-red-400">{previewError}</p>
+              ) : (
+                <>
+                  <LayoutPreview pages={stablePreviewPages} images={images} background={background} />
+                  <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+                    {previewServerReason
+                      ? `Merges on the server because ${previewServerReason}.`
+                      : 'Merges in the browser.'}
+                    {needsPreprocessing(getPreprocessOptions()) &&
+                      ' Trimming and stitching happen during the merge, so the final size may be smaller.'}
+                  </p>
+                </>
+              )}
+            </div>
+          )}
+
           {/* Alignment Mode */}
           <div className="mb-6">
             <label className="block text-sm font-medium mb-2 text-gray-900 dark:text-white">
               Alignment Mode
             </label>
-            <div className="flex gap-4">
+            <div className="flex flex-wrap gap-4">
               <button
                 onClick={() => setAlignmentMode('horizontal')}
                 className={`px-4 py-2 rounded-lg transition-colors ${
@@ -356,6 +1381,26 @@ export default function Home() {
               >
                 Grid
               </button>
+              <button
+                onClick={() => setAlignmentMode('justified')}
+                className={`px-4 py-2 rounded-lg transition-colors ${
+                  alignmentMode === 'justified'
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-white hover:bg-gray-300 dark:hover:bg-gray-600'
+                }`}
+              >
+                Justified Rows
+              </button>
+              <button
+                onClick={() => setAlignmentMode('masonry')}
+                className={`px-4 py-2 rounded-lg transition-colors ${
+                  alignmentMode === 'masonry'
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-white hover:bg-gray-300 dark:hover:bg-gray-600'
+                }`}
+              >
+                Masonry
+              </button>
             </div>
           </div>
 
@@ -365,6 +1410,21 @@ export default function Home() {
               <h3 className="text-sm font-medium mb-3 text-gray-900 dark:text-white">
                 Grid Settings
               </h3>
+              <div className="mb-4">
+                <label className="block text-sm mb-1 text-gray-900 dark:text-white">
+                  Grid Size
+                </label>
+                <select
+                  value={gridFit}
+                  onChange={(e) => setGridFit(e.target.value as GridFit)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                >
+                  <option value="manual">Manual (set rows and columns)</option>
+                  <option value="square">Auto (near-square grid)</option>
+                  <option value="fixed-cols">Auto rows (fixed columns)</option>
+                  <option value="fixed-rows">Auto columns (fixed rows)</option>
+                </select>
+              </div>
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm mb-1 text-gray-900 dark:text-white">
@@ -374,8 +1434,9 @@ export default function Home() {
                     type="number"
                     min="1"
                     value={gridRows}
+                    disabled={gridFit === 'square' || gridFit === 'fixed-cols'}
                     onChange={(e) => setGridRows(Math.max(1, parseInt(e.target.value) || 1))}
-                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white disabled:opacity-50"
                   />
                 </div>
                 <div>
@@ -386,14 +1447,289 @@ export default function Home() {
                     type="number"
                     min="1"
                     value={gridCols}
+                    disabled={gridFit === 'square' || gridFit === 'fixed-rows'}
                     onChange={(e) => setGridCols(Math.max(1, parseInt(e.target.value) || 1))}
-                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white disabled:opacity-50"
                   />
                 </div>
               </div>
+              {gridFit === 'manual' && (
+                <div className="mt-4">
+                  <label className="block text-sm mb-1 text-gray-900 dark:text-white">
+                    When There Are More Images Than Cells
+                  </label>
+                  <select
+                    value={gridOverflow}
+                    onChange={(e) => setGridOverflow(e.target.value as GridOverflow)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                  >
+                    <option value="grow">Add rows</option>
+                    <option value="reject">Show an error</option>
+                    <option value="paginate">Split into several pages</option>
+                  </select>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Justified Options */}
+          {alignmentMode === 'justified' && (
+            <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
+              <h3 className="text-sm font-medium mb-3 text-gray-900 dark:text-white">
+                Justified Row Settings
+              </h3>
+              <label className="block text-sm mb-1 text-gray-900 dark:text-white">
+                Target Row Height (px)
+              </label>
+              <input
+                type="number"
+                min="1"
+                value={rowHeight}
+                onChange={(e) => setRowHeight(Math.max(1, parseInt(e.target.value) || 1))}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+              />
+            </div>
+          )}
+
+          {/* Masonry Options */}
+          {alignmentMode === 'masonry' && (
+            <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
+              <h3 className="text-sm font-medium mb-3 text-gray-900 dark:text-white">
+                Masonry Settings
+              </h3>
+              <label className="block text-sm mb-1 text-gray-900 dark:text-white">
+                Columns
+              </label>
+              <input
+                type="number"
+                min="1"
+                value={masonryCols}
+                onChange={(e) => setMasonryCols(Math.max(1, parseInt(e.target.value) || 1))}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+              />
+            </div>
+          )}
+
+          {/* Cross-axis Alignment */}
+          {alignmentMode !== 'justified' && alignmentMode !== 'masonry' && (
+            <div className="mb-6">
+              <h3 className="text-sm font-medium mb-3 text-gray-900 dark:text-white">
+                Image Alignment
+              </h3>
+              <div className="grid grid-cols-2 gap-4">
+                {alignmentMode !== 'horizontal' && (
+                  <div>
+                    <label className="block text-sm mb-1 text-gray-900 dark:text-white">
+                      Horizontal
+                    </label>
+                    <select
+                      value={alignX}
+                      onChange={(e) => setAlignX(e.target.value as CrossAlign)}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                    >
+                      <option value="start">Left</option>
+                      <option value="center">Center</option>
+                      <option value="end">Right</option>
+                    </select>
+                  </div>
+                )}
+                {alignmentMode !== 'vertical' && (
+                  <div>
+                    <label className="block text-sm mb-1 text-gray-900 dark:text-white">
+                      Vertical
+                    </label>
+                    <select
+                      value={alignY}
+                      onChange={(e) => setAlignY(e.target.value as CrossAlign)}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                    >
+                      <option value="start">Top</option>
+                      <option value="center">Middle</option>
+                      <option value="end">Bottom</option>
+                    </select>
+                  </div>
+                )}
+              </div>
             </div>
           )}
 
+          {/* Trim & Stitch */}
+          <div className="mb-6">
+            <h3 className="text-sm font-medium mb-3 text-gray-900 dark:text-white">
+              Trim & Stitch
+            </h3>
+            <div className="flex flex-wrap items-center gap-4 mb-2">
+              <label className="flex items-center gap-2 text-sm text-gray-900 dark:text-white">
+                <input
+                  type="checkbox"
+                  checked={trimBorders}
+                  onChange={(e) => setTrimBorders(e.target.checked)}
+                />
+                Trim uniform borders
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-900 dark:text-white">
+                Threshold
+                <input
+                  type="number"
+                  min="0"
+                  max="255"
+                  value={trimThreshold}
+                  disabled={!trimBorders}
+                  onChange={(e) => setTrimThreshold(Math.min(255, Math.max(0, parseInt(e.target.value) || 0)))}
+                  className="w-20 px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white disabled:opacity-50"
+                />
+              </label>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-900 dark:text-white">
+              <input
+                type="checkbox"
+                checked={stitchOverlap && canStitch}
+                disabled={!canStitch}
+                onChange={(e) => setStitchOverlap(e.target.checked)}
+              />
+              Stitch overlapping screenshots (remove content repeated between neighbours)
+            </label>
+            <p className="mt-2 text-xs text-gray-600 dark:text-gray-400">
+              {canStitch
+                ? 'Uses server-side processing. Put scrolling captures in order; each one loses the rows it repeats from the previous one.'
+                : 'Stitching is available for horizontal and vertical merges.'}
+            </p>
+          </div>
+
+          {/* Spacing & Background */}
+          <div className="mb-6">
+            <h3 className="text-sm font-medium mb-3 text-gray-900 dark:text-white">
+              Spacing & Background
+            </h3>
+            <div className="grid grid-cols-2 gap-4 mb-4">
+              <div>
+                <label className="block text-sm mb-1 text-gray-900 dark:text-white">
+                  Gap Between Images (px)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  value={spacing}
+                  onChange={(e) => setSpacing(Math.max(0, parseInt(e.target.value) || 0))}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                />
+              </div>
+              <div>
+                <label className="block text-sm mb-1 text-gray-900 dark:text-white">
+                  Outer Padding (px)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  value={padding}
+                  onChange={(e) => setPadding(Math.max(0, parseInt(e.target.value) || 0))}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-4">
+              <label className="flex items-center gap-2 text-sm text-gray-900 dark:text-white">
+                <input
+                  type="checkbox"
+                  checked={transparentBackground}
+                  onChange={(e) => setTransparentBackground(e.target.checked)}
+                />
+                Transparent background
+              </label>
+              <input
+                type="color"
+                value={backgroundColor}
+                disabled={transparentBackground}
+                onChange={(e) => setBackgroundColor(e.target.value)}
+                className="h-9 w-16 border border-gray-300 dark:border-gray-600 rounded disabled:opacity-50"
+              />
+            </div>
+          </div>
+
+          {/* Captions */}
+          <div className="mb-6">
+            <h3 className="text-sm font-medium mb-3 text-gray-900 dark:text-white">
+              Captions
+            </h3>
+            <div className="grid grid-cols-2 gap-4 mb-4">
+              <div>
+                <label className="block text-sm mb-1 text-gray-900 dark:text-white">
+                  Label
+                </label>
+                <select
+                  value={
+                    captionTemplate === ''
+                      ? ''
+                      : CAPTION_PRESETS.find((preset) => preset.template === captionTemplate)?.template ?? 'custom'
+                  }
+                  onChange={(e) => {
+                    if (e.target.value !== 'custom') setCaptionTemplate(e.target.value);
+                    else if (captionTemplate === '') setCaptionTemplate('{name}');
+                  }}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                >
+                  <option value="">None</option>
+                  {CAPTION_PRESETS.map((preset) => (
+                    <option key={preset.template} value={preset.template}>
+                      {preset.label}
+                    </option>
+                  ))}
+                  <option value="custom">Custom text</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm mb-1 text-gray-900 dark:text-white">
+                  Position
+                </label>
+                <select
+                  value={captionPosition}
+                  disabled={!captionTemplate}
+                  onChange={(e) => setCaptionPosition(e.target.value as CaptionPosition)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white disabled:opacity-50"
+                >
+                  <option value="below">Below image</option>
+                  <option value="above">Above image</option>
+                </select>
+              </div>
+            </div>
+            {captionTemplate && (
+              <>
+                <input
+                  type="text"
+                  value={captionTemplate}
+                  maxLength={MAX_CAPTION_LENGTH}
+                  onChange={(e) => setCaptionTemplate(e.target.value)}
+                  className="w-full px-3 py-2 mb-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                />
+                <p className="mb-4 text-xs text-gray-600 dark:text-gray-400">
+                  {'{name}, {index}, {width} and {height} are replaced for each image.'}
+                </p>
+                <div className="flex items-center gap-4">
+                  <label className="flex items-center gap-2 text-sm text-gray-900 dark:text-white">
+                    Font size (px)
+                    <input
+                      type="number"
+                      min="4"
+                      max="500"
+                      value={captionFontSize}
+                      onChange={(e) => setCaptionFontSize(Math.min(500, Math.max(4, parseInt(e.target.value) || 4)))}
+                      className="w-20 px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                    />
+                  </label>
+                  <label className="flex items-center gap-2 text-sm text-gray-900 dark:text-white">
+                    Color
+                    <input
+                      type="color"
+                      value={captionColor}
+                      onChange={(e) => setCaptionColor(e.target.value)}
+                      className="h-9 w-16 border border-gray-300 dark:border-gray-600 rounded"
+                    />
+                  </label>
+                </div>
+              </>
+            )}
+          </div>
+
           {/* Resize Options */}
           <div className="mb-6">
             <h3 className="text-sm font-medium mb-3 text-gray-900 dark:text-white">
@@ -438,7 +1774,7 @@ export default function Home() {
               </label>
               <select
                 value={alignDimension}
-                onChange={(e) => setAlignDimension(e.target.value as 'none' | 'width' | 'height')}
+                onChange={(e) => setAlignDimension(e.target.value as AlignDimension)}
                 className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
               >
                 <option value="none">None (keep original sizes)</option>
@@ -448,43 +1784,280 @@ export default function Home() {
             </div>
           </div>
 
+          {/* Output Format */}
+          <div className="mb-6">
+            <h3 className="text-sm font-medium mb-3 text-gray-900 dark:text-white">
+              Output Format
+            </h3>
+            <div className="grid grid-cols-2 gap-4 mb-4">
+              <div>
+                <label className="block text-sm mb-1 text-gray-900 dark:text-white">
+                  Format
+                </label>
+                <select
+                  value={outputFormat}
+                  onChange={(e) => setOutputFormat(e.target.value as OutputFormat)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                >
+                  {(Object.keys(OUTPUT_FORMATS) as OutputFormat[]).map((format) => (
+                    <option key={format} value={format}>
+                      {OUTPUT_FORMATS[format].label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {outputFormat === 'png' && (
+                <div>
+                  <label className="block text-sm mb-1 text-gray-900 dark:text-white">
+                    Compression Level (0-9)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="9"
+                    value={compressionLevel}
+                    onChange={(e) => setCompressionLevel(Math.min(9, Math.max(0, parseInt(e.target.value) || 0)))}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                  />
+                </div>
+              )}
+              {outputFormat === 'tiff' && (
+                <div>
+                  <label className="block text-sm mb-1 text-gray-900 dark:text-white">
+                    Compression
+                  </label>
+                  <select
+                    value={tiffCompression}
+                    onChange={(e) => setTiffCompression(e.target.value as TiffCompression)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                  >
+                    <option value="deflate">Deflate</option>
+                    <option value="lzw">LZW</option>
+                  </select>
+                </div>
+              )}
+              {!isLossless(getOutputOptions()) && (
+                <div>
+                  <label className="block text-sm mb-1 text-gray-900 dark:text-white">
+                    Quality ({quality})
+                  </label>
+                  <input
+                    type="range"
+                    min="1"
+                    max="100"
+                    value={quality}
+                    onChange={(e) => setQuality(parseInt(e.target.value))}
+                    className="w-full"
+                  />
+                </div>
+              )}
+            </div>
+            {OUTPUT_FORMATS[outputFormat].supportsLossless && OUTPUT_FORMATS[outputFormat].supportsLossy && (
+              <label className="flex items-center gap-2 text-sm text-gray-900 dark:text-white mb-2">
+                <input
+                  type="checkbox"
+                  checked={lossless}
+                  onChange={(e) => setLossless(e.target.checked)}
+                />
+                Lossless
+              </label>
+            )}
+            <div className="mb-4 p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
+              <h4 className="text-sm font-medium mb-3 text-gray-900 dark:text-white">
+                Color & Metadata
+              </h4>
+              <label className="block text-sm mb-1 text-gray-900 dark:text-white">
+                Color Profile
+              </label>
+              <select
+                value={colorProfile}
+                onChange={(e) => setColorProfile(e.target.value as ColorProfile)}
+                className="w-full px-3 py-2 mb-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+              >
+                <option value="srgb">sRGB (convert all images)</option>
+                <option value="p3">Display P3 (convert and embed)</option>
+                <option value="input">Embed the first image&apos;s profile</option>
+              </select>
+              <label className="flex items-center gap-2 text-sm text-gray-900 dark:text-white mb-2">
+                <input
+                  type="checkbox"
+                  checked={preserveBitDepth}
+                  disabled={!OUTPUT_FORMATS[outputFormat].supports16Bit}
+                  onChange={(e) => setPreserveBitDepth(e.target.checked)}
+                />
+                Keep 16-bit depth when the inputs are 16-bit (PNG and TIFF only)
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-900 dark:text-white">
+                <input
+                  type="checkbox"
+                  checked={keepMetadata}
+                  onChange={(e) => setKeepMetadata(e.target.checked)}
+                />
+                Copy EXIF/XMP metadata from the first image
+              </label>
+              <p className="mt-2 text-xs text-gray-600 dark:text-gray-400">
+                These options are only available with server-side processing.
+              </p>
+            </div>
+            <div className="mb-4 p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
+              <h4 className="text-sm font-medium mb-3 text-gray-900 dark:text-white">
+                Tile Pyramid
+              </h4>
+              <select
+                value={pyramid}
+                onChange={(e) => setPyramid(e.target.value as PyramidLayout)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+              >
+                <option value="none">Single image</option>
+                <option value="dz">DeepZoom pyramid (zip)</option>
+                <option value="iiif">IIIF pyramid (zip)</option>
+              </select>
+              <p className="mt-2 text-xs text-gray-600 dark:text-gray-400">
+                Splits very large merges into {PYRAMID_TILE_SIZE}px tiles at every zoom level so they can be
+                viewed without decoding the whole image. Tiles use the selected format when it is PNG, WebP or
+                JPEG, and PNG otherwise.
+              </p>
+            </div>
+            <div className="mb-4 p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
+              <h4 className="text-sm font-medium mb-3 text-gray-900 dark:text-white">
+                Verification
+              </h4>
+              <label className="flex items-center gap-2 text-sm text-gray-900 dark:text-white">
+                <input
+                  type="checkbox"
+                  checked={verify && pyramid === 'none'}
+                  disabled={pyramid !== 'none'}
+                  onChange={(e) => setVerify(e.target.checked)}
+                />
+                Verify the output is lossless
+              </label>
+              <p className="mt-2 text-xs text-gray-600 dark:text-gray-400">
+                After merging, every image is read back from the output and compared pixel for pixel with the
+                input. Images changed on purpose, such as resized or watermarked ones, are reported as
+                intentionally not lossless. Not available for tile pyramids.
+              </p>
+            </div>
+            {estimatedBytes !== null && (
+              <p className="text-xs text-gray-600 dark:text-gray-400">
+                Estimated file size: ~{formatBytes(estimatedBytes)}
+              </p>
+            )}
+          </div>
+
           {/* Merge Button */}
           <button
             onClick={mergeImages}
-            disabled={images.length === 0 || isProcessing}
+            disabled={images.length === 0 || isProcessing || batchError !== null}
             className="w-full px-6 py-3 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors font-semibold"
           >
-            {isProcessing ? 'Processing...' : 'Merge Images (Lossless PNG)'}
+            {isProcessing
+              ? 'Processing...'
+              : `Merge ${batchGroups ? `${batchGroups.length} Groups` : 'Images'} (${isLossless(getOutputOptions()) ? 'Lossless' : 'Lossy'} ${OUTPUT_FORMATS[outputFormat].label})`}
           </button>
+
+          {mergeError && (
+            <div className="mt-4 p-4 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-300">
+              {mergeError}
+            </div>
+          )}
+
+          {/* Merge Progress */}
+          {(jobId || clientMerge) && (
+            <div className="mt-4">
+              <div className="flex items-center justify-between mb-1 text-sm text-gray-900 dark:text-white">
+                <span>
+                  {jobProgress ? formatProgress(jobProgress) : jobId ? 'Waiting in queue...' : 'Starting...'}
+                </span>
+                <button
+                  onClick={cancelMerge}
+                  className="px-3 py-1 text-sm bg-red-500 text-white rounded hover:bg-red-600 transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+              <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-green-500 transition-all"
+                  style={{ width: `${jobProgress ? (jobProgress.completed / jobProgress.total) * 100 : 0}%` }}
+                />
+              </div>
+            </div>
+          )}
         </div>
 
-        {/* Result Section */}
-        {mergedImage && (
+        {/* Batch Result Section */}
+        {batchResult && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6">
+            <h2 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white">
+              Batch Result ({batchResult.names.length} files)
+            </h2>
+            <ul className="mb-4 max-h-64 overflow-auto text-sm text-gray-900 dark:text-white list-disc list-inside">
+              {batchResult.names.map((name) => (
+                <li key={name}>{name}</li>
+              ))}
+            </ul>
+            {verification && <VerificationReportView report={verification} />}
+            <button
+              onClick={downloadBatch}
+              className="w-full px-6 py-3 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors font-semibold"
+            >
+              Download All (zip)
+            </button>
+          </div>
+        )}
+
+        {/* Pyramid Result Section */}
+        {pyramidResult && (
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
             <h2 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white">
-              Merged Image
+              Tile Pyramid
             </h2>
-            <div className="mb-4 overflow-auto max-h-96 bg-gray-100 dark:bg-gray-700 rounded-lg p-4">
-              {/* eslint-disable-next-line @next/next/no-img-element */}
-              <img
-                src={mergedImage}
-                alt="Merged result"
-                className="max-w-full"
-                onError={() => {
-                  console.error('Failed to load merged image');
-                  console.log('Image src length:', mergedImage?.length);
-                }}
-                onLoad={() => console.log('Merged image loaded successfully')}
-              />
+            <div className="mb-4">
+              <PyramidViewer pyramid={pyramidResult.pyramid} zip={pyramidResult.zip} />
             </div>
             <button
-              onClick={downloadMergedImage}
+              onClick={downloadPyramid}
               className="w-full px-6 py-3 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors font-semibold"
             >
-              Download Merged Image
+              Download Tile Pyramid (zip)
             </button>
           </div>
         )}
+
+        {/* Result Section */}
+        {mergedImages.length > 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+            <h2 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white">
+              {mergedImages.length > 1 ? `Merged Images (${mergedImages.length} pages)` : 'Merged Image'}
+            </h2>
+            {verification && <VerificationReportView report={verification} />}
+            {mergedImages.map((mergedImage, index) => (
+              <div key={mergedImage} className={index > 0 ? 'mt-6' : undefined}>
+                <div className="mb-4 overflow-auto max-h-96 bg-gray-100 dark:bg-gray-700 rounded-lg p-4">
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img
+                    src={mergedImage}
+                    alt={mergedImages.length > 1 ? `Merged result page ${index + 1}` : 'Merged result'}
+                    className="max-w-full"
+                    onError={() => {
+                      console.error('Failed to load merged image');
+                      console.log('Image src length:', mergedImage.length);
+                    }}
+                    onLoad={() => console.log('Merged image loaded successfully')}
+                  />
+                </div>
+                <button
+                  onClick={() => downloadMergedImage(index)}
+                  className="w-full px-6 py-3 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors font-semibold"
+                >
+                  {mergedImages.length > 1 ? `Download Page ${index + 1}` : 'Download Merged Image'}
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        </>
+        )}
         </div>
       </div>
     </>
@@ -0,0 +1,276 @@
+import { copyFile, mkdir, mkdtemp, readdir, readFile, rm, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { parseArgs } from 'util';
+import { formatProgress } from '@/lib/merge-job';
+import { OUTPUT_FORMATS, type OutputFormat } from '@/lib/output-format';
+import { MERGE_PARAM_SCHEMA, PresetError, readPreset, toFormFields, type MergeParams } from '@/lib/presets';
+import { mergeRequestToFiles } from '@/lib/server/batch';
+import { toErrorBody } from '@/lib/server/errors';
+import { MERGE_LIMITS } from '@/lib/server/limits';
+import { readMergeRequest } from '@/lib/server/merge-request';
+import type { UploadedFile } from '@/lib/server/multipart';
+import { VERIFICATION_FILE_NAME, writeVerificationReport } from '@/lib/server/verify';
+
+// Exit statuses: bad arguments or inputs are told apart from merges that failed
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+// Every merge setting is a flag named after its form field, e.g. `--grid-cols` for `gridCols`
+const PARAM_NAMES = Object.keys(MERGE_PARAM_SCHEMA) as Array<keyof MergeParams>;
+const flagName = (name: string) => name.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`);
+
+// Short forms for the settings used most
+const ALIASES: Record<string, keyof MergeParams> = {
+  mode: 'alignmentMode',
+  rows: 'gridRows',
+  cols: 'gridCols',
+};
+
+const USAGE = `Usage: npm run merge-images -- [options] <file or glob>...
+
+Merge images with the same pipeline as the web app's server.
+
+Options:
+  -o, --out <path>           Output file, or a directory when the merge writes
+                             several files (default: merged-image.<ext>)
+  -p, --preset <file>        Start from a preset exported from the page
+      --watermark-image <f>  Image used by --watermark image
+  -q, --quiet                Do not report progress on the terminal
+  -h, --help                 Show this help
+
+  --mode, --rows and --cols are short for --alignment-mode, --grid-rows and
+  --grid-cols. Every other merge setting is a flag named after its API field:
+${PARAM_NAMES.map((name) => {
+  const rule = MERGE_PARAM_SCHEMA[name];
+  const value =
+    rule.type === 'enum' ? rule.values.join('|') :
+    rule.type === 'int' ? `${rule.min}-${rule.max}` :
+    rule.type === 'boolean' ? '' :
+    rule.type === 'color' ? (rule.transparent ? 'transparent|#rrggbb' : '#rrggbb') :
+    'text';
+  return `  --${flagName(name)}${rule.type === 'boolean' ? `, --no-${flagName(name)}` : ` <${value}>`}`;
+}).join('\n')}
+
+  Quote globs to have them expanded here rather than by the shell; * and ?
+  match within a name and ** matches any number of directories. When no
+  --format is given, it follows the extension of --out. With --verify, the
+  report is written next to the output as ${VERIFICATION_FILE_NAME}.
+
+Exit status: 0 on success, ${EXIT_USAGE} for invalid arguments or inputs, ${EXIT_FAILURE} if the merge
+failed or verification found pixels that changed for no stated reason.
+`;
+
+const hasWildcard = (pattern: string) => /[*?]/.test(pattern);
+
+// Regular expression for one path segment of a glob
+const segmentPattern = (segment: string) =>
+  new RegExp(`^${segment.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]')}$`);
+
+// Files matching a glob, sorted by name with numbers in numeric order
+async function expandGlob(pattern: string): Promise<string[]> {
+  const absolute = path.resolve(pattern);
+  const { root } = path.parse(absolute);
+  const segments = absolute.slice(root.length).split(path.sep);
+
+  let matches = [root];
+  for (const [i, segment] of segments.entries()) {
+    const last = i === segments.length - 1;
+    const next: string[] = [];
+    for (const dir of matches) {
+      if (segment === '**') {
+        // Zero or more directories: the directory itself and everything below it
+        const nested = await readdir(dir, { recursive: true, withFileTypes: true }).catch(() => []);
+        next.push(dir, ...nested.filter((entry) => entry.isDirectory()).map((entry) => path.join(entry.parentPath, entry.name)));
+      } else if (!hasWildcard(segment)) {
+        next.push(path.join(dir, segment));
+      } else {
+        const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+        const regex = segmentPattern(segment);
+        next.push(...entries
+          .filter((entry) => regex.test(entry.name) && (last ? entry.isFile() : entry.isDirectory()))
+          .map((entry) => path.join(dir, entry.name)));
+      }
+    }
+    matches = next;
+  }
+
+  return Array.from(new Set(matches)).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+// Input files in argument order; plain paths must exist, globs must match something
+async function resolveInputs(patterns: string[]): Promise<string[]> {
+  const files: string[] = [];
+  for (const pattern of patterns) {
+    if (!hasWildcard(pattern)) {
+      const info = await stat(pattern).catch(() => null);
+      if (!info?.isFile()) throw new UsageError(`${pattern}: no such file`);
+      files.push(path.resolve(pattern));
+      continue;
+    }
+    const matches = await expandGlob(pattern);
+    if (matches.length === 0) throw new UsageError(`${pattern}: no files match`);
+    files.push(...matches);
+  }
+  return files;
+}
+
+// Form fields of the preset file, or none without one
+async function readPresetFields(file: string | undefined): Promise<Array<[string, string]>> {
+  if (!file) return [];
+
+  let json: unknown;
+  try {
+    json = JSON.parse(await readFile(file, 'utf8'));
+  } catch {
+    throw new UsageError(`${file}: not a readable JSON file`);
+  }
+  try {
+    const { preset, ignored } = readPreset(json);
+    if (ignored.length > 0) {
+      console.warn(`${file}: invalid settings left at their defaults: ${ignored.join(', ')}`);
+    }
+    return toFormFields(preset.params);
+  } catch (error) {
+    if (error instanceof PresetError) throw new UsageError(`${file}: ${error.message}`);
+    throw error;
+  }
+}
+
+// The format an output path asks for through its extension, if any
+const formatForPath = (file: string): OutputFormat | undefined => {
+  const extension = path.extname(file).slice(1).toLowerCase();
+  return (Object.keys(OUTPUT_FORMATS) as OutputFormat[]).find(
+    (format) => OUTPUT_FORMATS[format].extension === extension || format === extension
+  );
+};
+
+async function main(args: string[]): Promise<void> {
+  const paramOptions = Object.fromEntries([
+    ...PARAM_NAMES.map((name) => [flagName(name), { type: MERGE_PARAM_SCHEMA[name].type === 'boolean' ? 'boolean' : 'string' }]),
+    ...PARAM_NAMES.filter((name) => MERGE_PARAM_SCHEMA[name].type === 'boolean')
+      .map((name) => [`no-${flagName(name)}`, { type: 'boolean' }]),
+    ...Object.keys(ALIASES).map((alias) => [alias, { type: 'string' }]),
+  ]) as Record<string, { type: 'string' | 'boolean' }>;
+
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        ...paramOptions,
+        out: { type: 'string', short: 'o' },
+        preset: { type: 'string', short: 'p' },
+        'watermark-image': { type: 'string' },
+        quiet: { type: 'boolean', short: 'q' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+  const { values, positionals } = parsed;
+  const flags = values as Record<string, string | boolean | undefined>;
+
+  if (flags.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+  if (positionals.length === 0) {
+    throw new UsageError('No input images given');
+  }
+
+  // Preset first, then flags, so the command line overrides the preset
+  const fields = new Map(await readPresetFields(flags.preset as string | undefined));
+  for (const name of PARAM_NAMES) {
+    const flag = flagName(name);
+    if (flags[`no-${flag}`]) fields.set(name, 'false');
+    if (flags[flag] !== undefined) fields.set(name, String(flags[flag]));
+  }
+  for (const [alias, name] of Object.entries(ALIASES)) {
+    if (flags[alias] !== undefined) fields.set(name, String(flags[alias]));
+  }
+
+  const out = flags.out as string | undefined;
+  const outFormat = out && formatForPath(out);
+  if (outFormat && flags.format === undefined) {
+    fields.set('format', outFormat);
+  }
+
+  const files = await resolveInputs(positionals);
+  const uploads: UploadedFile[] = files.map((file, i) => ({
+    field: `image-${i}`,
+    filename: path.basename(file),
+    mimeType: '',
+    path: file,
+  }));
+  const watermarkImage = flags['watermark-image'] as string | undefined;
+  if (watermarkImage) {
+    const [file] = await resolveInputs([watermarkImage]);
+    uploads.push({ field: 'watermarkImage', filename: path.basename(file), mimeType: '', path: file });
+  }
+
+  // Intermediates and outputs are written here, then copied to their destination
+  const workDir = await mkdtemp(path.join(tmpdir(), 'merge-'));
+  // The progress line rewrites itself, which only makes sense on a terminal
+  const showProgress = !flags.quiet && process.stderr.isTTY;
+  try {
+    const request = await readMergeRequest(fields, uploads, MERGE_LIMITS);
+    const { outputPaths, verification } = await mergeRequestToFiles(request, workDir, {
+      onProgress: showProgress ? (progress) => process.stderr.write(`\r${formatProgress(progress)}\x1b[K`) : undefined,
+    });
+    if (showProgress) process.stderr.write('\n');
+
+    let reportDir: string;
+    if (outputPaths.length === 1) {
+      const destination = out ?? `merged-image${path.extname(outputPaths[0])}`;
+      await mkdir(path.dirname(destination), { recursive: true });
+      await copyFile(outputPaths[0], destination);
+      console.log(destination);
+      reportDir = path.dirname(destination);
+    } else {
+      // Pages and batch groups keep the names they would have inside the API's zip
+      const directory = out ?? 'merged-images';
+      await mkdir(directory, { recursive: true });
+      for (const outputPath of outputPaths) {
+        const destination = path.join(directory, path.basename(outputPath));
+        await copyFile(outputPath, destination);
+        console.log(destination);
+      }
+      reportDir = directory;
+    }
+
+    if (verification) {
+      console.log(await writeVerificationReport(verification, reportDir));
+      const mismatched = verification.filter((tile) => tile.status === 'mismatch');
+      mismatched.forEach((tile) => console.error(`merge-images: ${tile.name} (image ${tile.index}) changed on page ${tile.page}`));
+      if (mismatched.length > 0) process.exitCode = EXIT_FAILURE;
+    }
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+// `npm run` starts scripts in the package root; paths are relative to where the command was typed
+if (process.env.INIT_CWD) process.chdir(process.env.INIT_CWD);
+
+main(process.argv.slice(2)).catch((error) => {
+  if (error instanceof UsageError) {
+    console.error(`merge-images: ${error.message}`);
+    console.error('See `npm run merge-images -- --help` for usage.');
+    process.exitCode = EXIT_USAGE;
+    return;
+  }
+  // The API's error mapping tells rejected inputs (4xx) apart from failures (5xx)
+  const { body, status } = toErrorBody(error);
+  console.error(`merge-images: ${body.error}`);
+  process.exitCode = status < 500 ? EXIT_USAGE : EXIT_FAILURE;
+});
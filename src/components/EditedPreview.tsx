@@ -0,0 +1,34 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { drawEdited, editedSize, type ImageEdit } from '@/lib/image-edit';
+import type { Size } from '@/lib/layout';
+
+interface EditedPreviewProps {
+  image: HTMLImageElement;
+  size?: Size;  // Full-resolution size when `image` is a downscaled preview
+  edit: ImageEdit;
+  maxSize: number;  // Longest side of the rendered preview, in canvas pixels
+  className?: string;
+}
+
+// Canvas showing `image` with its crop, rotation and flips applied
+export default function EditedPreview({ image, size = image, edit, maxSize, className }: EditedPreviewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const edited = editedSize(size, edit);
+    const scale = Math.min(1, maxSize / Math.max(edited.width, edited.height));
+    canvas.width = Math.max(1, Math.round(edited.width * scale));
+    canvas.height = Math.max(1, Math.round(edited.height * scale));
+
+    ctx.imageSmoothingQuality = 'high';
+    drawEdited(ctx, image, edit, { left: 0, top: 0, width: canvas.width, height: canvas.height }, size);
+  }, [image, size, edit, maxSize]);
+
+  return <canvas ref={canvasRef} className={className} />;
+}
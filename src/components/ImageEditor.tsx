@@ -0,0 +1,227 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import EditedPreview from '@/components/EditedPreview';
+import { IDENTITY_EDIT, type Crop, type ImageEdit, type Rotation } from '@/lib/image-edit';
+import type { Size } from '@/lib/layout';
+
+interface ImageEditorProps {
+  image: HTMLImageElement;
+  size: Size;  // Full-resolution size, which crops are measured in; `image` may be a smaller preview
+  name: string;
+  edit: ImageEdit;
+  onApply: (edit: ImageEdit) => void;
+  onCancel: () => void;
+}
+
+type DragMode = 'new' | 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+interface DragState {
+  mode: DragMode;
+  startX: number;  // Pointer position in image pixels
+  startY: number;
+  startCrop: Crop;
+}
+
+// Largest size the source is shown at while cropping
+const VIEW_WIDTH = 560;
+const VIEW_HEIGHT = 400;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export default function ImageEditor({ image, size, name, edit, onApply, onCancel }: ImageEditorProps) {
+  const [crop, setCrop] = useState<Crop | undefined>(edit.crop);
+  const [rotate, setRotate] = useState<Rotation>(edit.rotate);
+  const [flipH, setFlipH] = useState(edit.flipH);
+  const [flipV, setFlipV] = useState(edit.flipV);
+  const viewRef = useRef<HTMLDivElement>(null);
+  const drag = useRef<DragState | null>(null);
+
+  const scale = Math.min(1, VIEW_WIDTH / size.width, VIEW_HEIGHT / size.height);
+  const fullImage: Crop = { left: 0, top: 0, width: size.width, height: size.height };
+  const current: ImageEdit = { ...(crop && { crop }), rotate, flipH, flipV };
+
+  // Pointer position in source image pixels
+  const toImagePoint = (e: React.PointerEvent) => {
+    const rect = viewRef.current!.getBoundingClientRect();
+    return {
+      x: clamp(Math.round((e.clientX - rect.left) / scale), 0, size.width),
+      y: clamp(Math.round((e.clientY - rect.top) / scale), 0, size.height),
+    };
+  };
+
+  const startDrag = (mode: DragMode) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    const { x, y } = toImagePoint(e);
+    drag.current = { mode, startX: x, startY: y, startCrop: crop ?? fullImage };
+    viewRef.current!.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const state = drag.current;
+    if (!state) return;
+    const { x, y } = toImagePoint(e);
+    const { startCrop: c } = state;
+
+    let left = c.left;
+    let top = c.top;
+    let right = c.left + c.width;
+    let bottom = c.top + c.height;
+
+    switch (state.mode) {
+      case 'new':
+        left = Math.min(state.startX, x);
+        top = Math.min(state.startY, y);
+        right = Math.max(state.startX, x);
+        bottom = Math.max(state.startY, y);
+        break;
+      case 'move': {
+        const dx = clamp(x - state.startX, -c.left, size.width - right);
+        const dy = clamp(y - state.startY, -c.top, size.height - bottom);
+        left += dx;
+        right += dx;
+        top += dy;
+        bottom += dy;
+        break;
+      }
+      default:
+        // Corner handles move the two edges they touch, keeping at least one pixel
+        if (state.mode.includes('w')) left = Math.min(x, right - 1);
+        if (state.mode.includes('e')) right = Math.max(x, left + 1);
+        if (state.mode.includes('n')) top = Math.min(y, bottom - 1);
+        if (state.mode.includes('s')) bottom = Math.max(y, top + 1);
+    }
+
+    if (right - left < 1 || bottom - top < 1) return;
+    setCrop({ left, top, width: right - left, height: bottom - top });
+  };
+
+  // Keep a typed crop value inside the image
+  const setCropField = (field: keyof Crop, value: number) => {
+    const next = { ...(crop ?? fullImage), [field]: Math.round(value) || 0 };
+    next.left = clamp(next.left, 0, size.width - 1);
+    next.top = clamp(next.top, 0, size.height - 1);
+    next.width = clamp(next.width, 1, size.width - next.left);
+    next.height = clamp(next.height, 1, size.height - next.top);
+    setCrop(next);
+  };
+
+  const box = crop ?? fullImage;
+  const handleClass = 'absolute w-3 h-3 bg-white border border-blue-500 rounded-sm';
+  const buttonClass = 'px-3 py-2 text-sm bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-white rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors';
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/50 p-4" onClick={onCancel}>
+      <div
+        className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 max-w-4xl w-full max-h-full overflow-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white truncate">
+          Edit {name}
+        </h2>
+
+        <div className="flex flex-col md:flex-row gap-6">
+          <div>
+            <p className="mb-2 text-xs text-gray-600 dark:text-gray-400">
+              Drag to draw a crop rectangle, move it, or resize it from the corners.
+            </p>
+            <div
+              ref={viewRef}
+              className="relative select-none touch-none cursor-crosshair"
+              style={{ width: size.width * scale, height: size.height * scale }}
+              onPointerDown={startDrag('new')}
+              onPointerMove={handlePointerMove}
+              onPointerUp={() => {
+                drag.current = null;
+              }}
+            >
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img src={image.src} alt={name} draggable={false} className="w-full h-full" />
+              {crop && (
+                <div
+                  className="absolute border-2 border-blue-500 cursor-move shadow-[0_0_0_9999px_rgba(0,0,0,0.4)]"
+                  style={{
+                    left: box.left * scale,
+                    top: box.top * scale,
+                    width: box.width * scale,
+                    height: box.height * scale,
+                  }}
+                  onPointerDown={startDrag('move')}
+                >
+                  <div className={`${handleClass} -left-1.5 -top-1.5 cursor-nwse-resize`} onPointerDown={startDrag('nw')} />
+                  <div className={`${handleClass} -right-1.5 -top-1.5 cursor-nesw-resize`} onPointerDown={startDrag('ne')} />
+                  <div className={`${handleClass} -left-1.5 -bottom-1.5 cursor-nesw-resize`} onPointerDown={startDrag('sw')} />
+                  <div className={`${handleClass} -right-1.5 -bottom-1.5 cursor-nwse-resize`} onPointerDown={startDrag('se')} />
+                </div>
+              )}
+            </div>
+            <div className="grid grid-cols-4 gap-2 mt-3">
+              {(['left', 'top', 'width', 'height'] as const).map((field) => (
+                <label key={field} className="text-xs text-gray-600 dark:text-gray-400 capitalize">
+                  {field}
+                  <input
+                    type="number"
+                    value={box[field]}
+                    onChange={(e) => setCropField(field, parseInt(e.target.value))}
+                    className="w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  />
+                </label>
+              ))}
+            </div>
+            {crop && (
+              <button onClick={() => setCrop(undefined)} className={`${buttonClass} mt-3`}>
+                Remove crop
+              </button>
+            )}
+          </div>
+
+          <div className="flex-1">
+            <div className="flex flex-wrap gap-2 mb-4">
+              <button onClick={() => setRotate(((rotate + 270) % 360) as Rotation)} className={buttonClass}>
+                ⟲ Rotate left
+              </button>
+              <button onClick={() => setRotate(((rotate + 90) % 360) as Rotation)} className={buttonClass}>
+                ⟳ Rotate right
+              </button>
+              <button onClick={() => setFlipH(!flipH)} className={buttonClass}>
+                ⇆ Flip horizontal
+              </button>
+              <button onClick={() => setFlipV(!flipV)} className={buttonClass}>
+                ⇅ Flip vertical
+              </button>
+            </div>
+            <p className="mb-2 text-sm font-medium text-gray-900 dark:text-white">Result</p>
+            <div className="p-2 bg-gray-100 dark:bg-gray-700 rounded-lg flex justify-center">
+              <EditedPreview image={image} size={size} edit={current} maxSize={240} className="max-w-full" />
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-between gap-2 mt-6">
+          <button
+            onClick={() => {
+              setCrop(undefined);
+              setRotate(IDENTITY_EDIT.rotate);
+              setFlipH(IDENTITY_EDIT.flipH);
+              setFlipV(IDENTITY_EDIT.flipV);
+            }}
+            className={buttonClass}
+          >
+            Reset
+          </button>
+          <div className="flex gap-2">
+            <button onClick={onCancel} className={buttonClass}>
+              Cancel
+            </button>
+            <button
+              onClick={() => onApply(current)}
+              className="px-4 py-2 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors font-semibold"
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
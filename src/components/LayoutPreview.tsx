@@ -0,0 +1,98 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { drawEdited, type ImageEdit } from '@/lib/image-edit';
+import type { Layout, Size } from '@/lib/layout';
+
+// Largest size a page is previewed at
+const PREVIEW_WIDTH = 640;
+const PREVIEW_HEIGHT = 360;
+
+// Shown behind transparent areas
+const CHECKERBOARD = 'repeating-conic-gradient(#d1d5db 0% 25%, #f3f4f6 0% 50%) 0 0 / 16px 16px';
+
+interface LayoutPreviewProps {
+  pages: Array<{ indices: number[]; layout: Layout }>;
+  images: Array<{ img: HTMLImageElement; size: Size; edit: ImageEdit }>;  // Indexed by the pages' `indices`
+  background: string;
+}
+
+// Scaled-down drawing of the merge layout: every image at its computed position
+export default function LayoutPreview({ pages, images, background }: LayoutPreviewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [pageIndex, setPageIndex] = useState(0);
+
+  const page = pages[Math.min(pageIndex, pages.length - 1)];
+  const scale = page ? Math.min(1, PREVIEW_WIDTH / page.layout.width, PREVIEW_HEIGHT / page.layout.height) : 1;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !page) return;
+
+    const { layout, indices } = page;
+    canvas.width = Math.max(1, Math.round(layout.width * scale));
+    canvas.height = Math.max(1, Math.round(layout.height * scale));
+
+    if (background !== 'transparent') {
+      ctx.fillStyle = background;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+
+    ctx.imageSmoothingQuality = 'low';
+    const scaled = ({ left, top, width, height }: Layout['placements'][number]) => ({
+      left: left * scale,
+      top: top * scale,
+      width: Math.max(1, width * scale),
+      height: Math.max(1, height * scale),
+    });
+    indices.forEach((imageIndex, i) => {
+      const { img, size, edit } = images[imageIndex];
+      drawEdited(ctx, img, edit, scaled(layout.placements[i]), size);
+    });
+
+    // Caption bands are outlined rather than rendered at this size
+    ctx.fillStyle = 'rgba(59, 130, 246, 0.25)';
+    layout.captions.forEach((band) => {
+      const { left, top, width, height } = scaled(band);
+      ctx.fillRect(left, top, width, height);
+    });
+  }, [page, images, background, scale]);
+
+  if (!page) return null;
+
+  return (
+    <div>
+      {pages.length > 1 && (
+        <div className="flex flex-wrap items-center gap-2 mb-2 text-sm text-gray-900 dark:text-white">
+          <button
+            onClick={() => setPageIndex(Math.max(0, pageIndex - 1))}
+            disabled={pageIndex === 0}
+            className="px-2 py-1 bg-gray-200 dark:bg-gray-700 rounded hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50"
+          >
+            ←
+          </button>
+          Page {Math.min(pageIndex, pages.length - 1) + 1} of {pages.length}
+          <button
+            onClick={() => setPageIndex(Math.min(pages.length - 1, pageIndex + 1))}
+            disabled={pageIndex >= pages.length - 1}
+            className="px-2 py-1 bg-gray-200 dark:bg-gray-700 rounded hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50"
+          >
+            →
+          </button>
+        </div>
+      )}
+      <canvas
+        ref={canvasRef}
+        className="max-w-full border border-gray-300 dark:border-gray-600"
+        style={{ background: background === 'transparent' ? CHECKERBOARD : undefined }}
+      />
+      <p className="mt-2 text-sm font-medium text-gray-900 dark:text-white">
+        {page.layout.width.toLocaleString()} × {page.layout.height.toLocaleString()} px
+        {scale < 1 && (
+          <span className="font-normal text-gray-600 dark:text-gray-400"> · previewed at {Math.round(scale * 100)}%</span>
+        )}
+      </p>
+    </div>
+  );
+}
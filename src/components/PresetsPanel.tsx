@@ -0,0 +1,242 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  fromSearchParams,
+  PresetError,
+  PRESET_VERSION,
+  readPreset,
+  toSearchParams,
+  type MergeParams,
+  type MergePreset,
+} from '@/lib/presets';
+
+// Where saved presets live in the browser
+const STORAGE_KEY = 'merge-presets';
+
+const inputClass = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white';
+const buttonClass = 'px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-white rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+// Presets from stored or imported JSON: one preset or a list of them
+const readPresets = (json: unknown): { presets: MergePreset[]; ignored: string[] } => {
+  const presets: MergePreset[] = [];
+  const ignored = new Set<string>();
+  for (const item of Array.isArray(json) ? json : [json]) {
+    const result = readPreset(item);
+    presets.push(result.preset);
+    result.ignored.forEach((name) => ignored.add(name));
+  }
+  return { presets, ignored: Array.from(ignored) };
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const ignoredNotice = (ignored: string[]) =>
+  ignored.length > 0 ? ` Invalid settings were left at their defaults: ${ignored.join(', ')}.` : '';
+
+interface PresetsPanelProps {
+  params: MergeParams;  // The settings currently on the page
+  onApply: (params: MergeParams) => void;
+}
+
+// Save, load, import and export named merge settings, and copy a link to the current ones
+export default function PresetsPanel({ params, onApply }: PresetsPanelProps) {
+  const [presets, setPresets] = useState<MergePreset[]>([]);
+  const [presetName, setPresetName] = useState('');
+  const [selectedName, setSelectedName] = useState('');
+  const [notice, setNotice] = useState<{ text: string; isError: boolean } | null>(null);
+  const [linkRead, setLinkRead] = useState(false);
+
+  // The opening link is applied once, with whichever callback is current by then
+  const onApplyRef = useRef(onApply);
+  useEffect(() => {
+    onApplyRef.current = onApply;
+  });
+
+  // localStorage and the URL only exist in the browser, so both are read after mounting
+  useEffect(() => {
+    // Storage can be blocked by the browser's privacy settings, or hold something unreadable
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        setPresets(readPresets(JSON.parse(stored)).presets);
+      }
+    } catch (error) {
+      setNotice({ text: `Saved presets could not be read: ${errorMessage(error)}`, isError: true });
+    }
+
+    try {
+      const linked = fromSearchParams(new URLSearchParams(window.location.search));
+      if (linked) {
+        onApplyRef.current(linked.params);
+        setNotice({ text: `Loaded the settings from the link.${ignoredNotice(linked.ignored)}`, isError: false });
+      }
+    } catch (error) {
+      const text = error instanceof PresetError ? error.message : `The settings in the link could not be read: ${errorMessage(error)}`;
+      setNotice({ text, isError: true });
+    }
+    setLinkRead(true);
+  }, []);
+
+  // Keep the address in step with the settings so it can be shared at any time
+  const query = toSearchParams(params).toString();
+  useEffect(() => {
+    // Until the opening link is applied, the defaults would overwrite it
+    if (!linkRead) return;
+    const search = query === `v=${PRESET_VERSION}` ? '' : `?${query}`;
+    window.history.replaceState(window.history.state, '', `${window.location.pathname}${search}${window.location.hash}`);
+  }, [query, linkRead]);
+
+  // Keep the presets for this visit and save them in the browser, reporting whether saving worked
+  const storePresets = (next: MergePreset[]): boolean => {
+    setPresets(next);
+    // Storage can be full, or blocked by the browser's privacy settings
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      return true;
+    } catch (error) {
+      setNotice({ text: `The presets could not be saved in this browser: ${errorMessage(error)}`, isError: true });
+      return false;
+    }
+  };
+
+  // Add presets, replacing any saved under the same name
+  const addPresets = (added: MergePreset[]): boolean => {
+    const names = new Set(added.map((preset) => preset.name));
+    return storePresets([...presets.filter((preset) => !names.has(preset.name)), ...added]
+      .sort((a, b) => a.name.localeCompare(b.name)));
+  };
+
+  const selected = presets.find((preset) => preset.name === selectedName);
+
+  const savePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    const stored = addPresets([{ version: PRESET_VERSION, name, params }]);
+    setSelectedName(name);
+    setPresetName('');
+    if (stored) setNotice({ text: `Saved "${name}".`, isError: false });
+  };
+
+  const loadPreset = (name: string) => {
+    setSelectedName(name);
+    const preset = presets.find((item) => item.name === name);
+    if (!preset) return;
+    onApply(preset.params);
+    setNotice({ text: `Loaded "${preset.name}".`, isError: false });
+  };
+
+  const deletePreset = () => {
+    if (!selected) return;
+    const stored = storePresets(presets.filter((preset) => preset !== selected));
+    setSelectedName('');
+    if (stored) setNotice({ text: `Deleted "${selected.name}".`, isError: false });
+  };
+
+  const exportPreset = () => {
+    // Without a selection the current settings are exported under a generic name
+    const preset = selected ?? { version: PRESET_VERSION, name: 'Merge settings', params };
+    const url = URL.createObjectURL(new Blob([JSON.stringify(preset, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.download = `${preset.name.replace(/[^\w.-]+/g, '_')}.json`;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importPresets = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    let result: { presets: MergePreset[]; ignored: string[] };
+    try {
+      result = readPresets(JSON.parse(await file.text()));
+    } catch (error) {
+      const reason = error instanceof PresetError ? error.message : 'The file is not valid JSON';
+      setNotice({ text: `Could not import ${file.name}: ${reason}`, isError: true });
+      return;
+    }
+
+    if (!addPresets(result.presets)) return;
+    setNotice({
+      text: `Imported ${result.presets.map((preset) => `"${preset.name}"`).join(', ')}.${ignoredNotice(result.ignored)}`,
+      isError: false,
+    });
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setNotice({ text: 'Copied a link to the current settings.', isError: false });
+    } catch {
+      setNotice({ text: 'Could not copy the link; copy it from the address bar instead.', isError: true });
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6">
+      <h2 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white">
+        Presets
+      </h2>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <select
+          value={selectedName}
+          onChange={(e) => loadPreset(e.target.value)}
+          className={`${inputClass} flex-1 min-w-48`}
+        >
+          <option value="">{presets.length > 0 ? 'Load a preset…' : 'No saved presets'}</option>
+          {presets.map((preset) => (
+            <option key={preset.name} value={preset.name}>{preset.name}</option>
+          ))}
+        </select>
+        <button onClick={deletePreset} disabled={!selected} className={buttonClass}>
+          Delete
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <input
+          type="text"
+          value={presetName}
+          placeholder="Preset name"
+          maxLength={100}
+          onChange={(e) => setPresetName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && savePreset()}
+          className={`${inputClass} flex-1 min-w-48`}
+        />
+        <button
+          onClick={savePreset}
+          disabled={presetName.trim() === ''}
+          className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+        >
+          Save Current Settings
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button onClick={exportPreset} className={buttonClass}>
+          Export JSON
+        </button>
+        <label className={`${buttonClass} cursor-pointer`}>
+          Import JSON
+          <input type="file" accept="application/json,.json" onChange={importPresets} className="hidden" />
+        </label>
+        <button onClick={copyLink} className={buttonClass}>
+          Copy Link
+        </button>
+      </div>
+
+      {notice && (
+        <p className={`mt-4 text-sm ${notice.isError ? 'text-red-600 dark:text-red-400' : 'text-gray-600 dark:text-gray-400'}`}>
+          {notice.text}
+        </p>
+      )}
+      <p className="mt-2 text-xs text-gray-600 dark:text-gray-400">
+        Presets are saved in this browser. The page address always holds the current settings, so sharing it
+        opens the same configuration.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Pyramid } from '@/lib/pyramid';
+import type { ZipReader } from '@/lib/zip-reader';
+
+interface PyramidViewerProps {
+  pyramid: Pyramid;
+  zip: ZipReader;  // The pyramid's archive; tiles are read from it as they come into view
+}
+
+// Screen pixels per image pixel, plus the image point shown at the canvas top-left
+interface ViewState {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+const MAX_ZOOM = 4;
+
+export default function PyramidViewer({ pyramid, zip }: PyramidViewerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const view = useRef<ViewState>({ zoom: 1, x: 0, y: 0 });
+  const minZoom = useRef(1);
+  const tiles = useRef(new Map<string, ImageBitmap | null>());
+  // Bumped whenever `tiles` is cleared, so loads started before then are dropped
+  const loads = useRef({ generation: 0 });
+  const drag = useRef<{ x: number; y: number } | null>(null);
+  const [zoomPercent, setZoomPercent] = useState(100);
+
+  // Draw every tile of `level` that intersects the viewport, loading missing ones
+  const drawLevel = useCallback((ctx: CanvasRenderingContext2D, level: number, redraw: () => void) => {
+    const { zoom, x, y } = view.current;
+    const scale = 2 ** level;
+    const span = pyramid.tileSize * scale;  // Full-resolution pixels covered by one tile
+    const cols = Math.ceil(pyramid.width / span);
+    const rows = Math.ceil(pyramid.height / span);
+
+    const firstCol = Math.max(0, Math.floor(x / span));
+    const lastCol = Math.min(cols - 1, Math.floor((x + ctx.canvas.width / zoom) / span));
+    const firstRow = Math.max(0, Math.floor(y / span));
+    const lastRow = Math.min(rows - 1, Math.floor((y + ctx.canvas.height / zoom) / span));
+
+    for (let row = firstRow; row <= lastRow; row++) {
+      for (let col = firstCol; col <= lastCol; col++) {
+        const name = pyramid.tileName(level, col, row);
+
+        if (!tiles.current.has(name)) {
+          // Missing tiles stay null and are not looked up again
+          tiles.current.set(name, null);
+          const started = loads.current.generation;
+          zip.read(name)
+            .then((data) => (data ? createImageBitmap(new Blob([data as BlobPart])) : null))
+            .then((bitmap) => {
+              if (!bitmap) return;
+              if (loads.current.generation !== started) {
+                bitmap.close();
+                return;
+              }
+              tiles.current.set(name, bitmap);
+              redraw();
+            })
+            .catch((error) => console.error(`Failed to decode tile ${name}:`, error));
+          continue;
+        }
+
+        const bitmap = tiles.current.get(name);
+        if (!bitmap) continue;
+        ctx.drawImage(
+          bitmap,
+          (col * span - x) * zoom,
+          (row * span - y) * zoom,
+          bitmap.width * scale * zoom,
+          bitmap.height * scale * zoom
+        );
+      }
+    }
+  }, [pyramid, zip]);
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    // The coarsest level is a cheap backdrop while sharper tiles load
+    const level = Math.min(pyramid.maxLevel, Math.max(0, Math.floor(Math.log2(1 / view.current.zoom))));
+    drawLevel(ctx, pyramid.maxLevel, draw);
+    if (level !== pyramid.maxLevel) {
+      drawLevel(ctx, level, draw);
+    }
+    setZoomPercent(Math.round(view.current.zoom * 100));
+  }, [pyramid, drawLevel]);
+
+  const fitToView = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const zoom = Math.min(canvas.width / pyramid.width, canvas.height / pyramid.height, 1);
+    minZoom.current = Math.min(zoom, 1);
+    view.current = {
+      zoom,
+      x: -(canvas.width / zoom - pyramid.width) / 2,
+      y: -(canvas.height / zoom - pyramid.height) / 2,
+    };
+    draw();
+  }, [pyramid, draw]);
+
+  // Size the canvas to its box and fit the image whenever the pyramid changes
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = canvas.clientWidth;
+    canvas.height = canvas.clientHeight;
+    fitToView();
+
+    const loaded = tiles.current;
+    const counter = loads.current;
+    return () => {
+      counter.generation++;
+      loaded.forEach((bitmap) => bitmap?.close());
+      loaded.clear();
+    };
+  }, [fitToView]);
+
+  // Zoom around the cursor; registered manually so preventDefault is allowed
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const px = e.clientX - rect.left;
+      const py = e.clientY - rect.top;
+      const { zoom, x, y } = view.current;
+      const nextZoom = Math.min(MAX_ZOOM, Math.max(minZoom.current, zoom * Math.exp(-e.deltaY * 0.002)));
+      view.current = {
+        zoom: nextZoom,
+        x: x + px / zoom - px / nextZoom,
+        y: y + py / zoom - py / nextZoom,
+      };
+      draw();
+    };
+
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', onWheel);
+  }, [draw]);
+
+  return (
+    <div>
+      <canvas
+        ref={canvasRef}
+        className="w-full h-96 bg-gray-100 dark:bg-gray-700 rounded-lg cursor-grab active:cursor-grabbing touch-none"
+        onPointerDown={(e) => {
+          drag.current = { x: e.clientX, y: e.clientY };
+          e.currentTarget.setPointerCapture(e.pointerId);
+        }}
+        onPointerMove={(e) => {
+          if (!drag.current) return;
+          const { zoom } = view.current;
+          view.current.x -= (e.clientX - drag.current.x) / zoom;
+          view.current.y -= (e.clientY - drag.current.y) / zoom;
+          drag.current = { x: e.clientX, y: e.clientY };
+          draw();
+        }}
+        onPointerUp={() => {
+          drag.current = null;
+        }}
+      />
+      <div className="mt-2 flex items-center justify-between text-xs text-gray-600 dark:text-gray-400">
+        <span>
+          {pyramid.width} × {pyramid.height} px · {pyramid.layout === 'dz' ? 'DeepZoom' : 'IIIF'} · {zoomPercent}%
+        </span>
+        <button onClick={fitToView} className="underline hover:text-gray-900 dark:hover:text-white">
+          Fit to view
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+'use client';
+
+import { useState } from 'react';
+import { LayoutError } from '@/lib/layout';
+import { isMergeErrorBody } from '@/lib/merge-errors';
+import {
+  computeSplit,
+  DEFAULT_SPLIT_SPEC,
+  SPLIT_MODE_LABELS,
+  type SplitMode,
+  type SplitSpec,
+  type SplitTile,
+} from '@/lib/split';
+
+// Largest size the source is previewed at
+const PREVIEW_WIDTH = 720;
+const PREVIEW_HEIGHT = 480;
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white';
+
+// Cut one image into a zip of lossless tiles on the server
+export default function SplitPanel() {
+  const [source, setSource] = useState<{ file: File; img: HTMLImageElement } | null>(null);
+  const [mode, setMode] = useState<SplitMode>(DEFAULT_SPLIT_SPEC.mode);
+  const [tileWidth, setTileWidth] = useState(DEFAULT_SPLIT_SPEC.tileWidth);
+  const [tileHeight, setTileHeight] = useState(DEFAULT_SPLIT_SPEC.tileHeight);
+  const [rows, setRows] = useState(DEFAULT_SPLIT_SPEC.rows);
+  const [cols, setCols] = useState(DEFAULT_SPLIT_SPEC.cols);
+  const [stripHeight, setStripHeight] = useState(DEFAULT_SPLIT_SPEC.stripHeight);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [splitError, setSplitError] = useState<string | null>(null);
+
+  const spec: SplitSpec = { mode, tileWidth, tileHeight, rows, cols, stripHeight };
+
+  // Tiles for the preview, or why the spec does not fit the image
+  let tiles: SplitTile[] = [];
+  let specError: string | null = null;
+  if (source) {
+    try {
+      tiles = computeSplit({ width: source.img.width, height: source.img.height }, spec);
+    } catch (error) {
+      if (!(error instanceof LayoutError)) throw error;
+      specError = error.message;
+    }
+  }
+
+  const selectFile = async (file: File | undefined) => {
+    if (!file || !file.type.startsWith('image/')) return;
+
+    const img = new Image();
+    await new Promise((resolve) => {
+      img.onload = resolve;
+      img.src = URL.createObjectURL(file);
+    });
+    if (source) URL.revokeObjectURL(source.img.src);
+    setSource({ file, img });
+    setSplitError(null);
+  };
+
+  const splitImage = async () => {
+    if (!source) return;
+
+    setIsProcessing(true);
+    setSplitError(null);
+    try {
+      const formData = new FormData();
+      formData.append('mode', mode);
+      formData.append('tileWidth', tileWidth.toString());
+      formData.append('tileHeight', tileHeight.toString());
+      formData.append('rows', rows.toString());
+      formData.append('cols', cols.toString());
+      formData.append('stripHeight', stripHeight.toString());
+      formData.append('image', source.file);
+
+      const response = await fetch('/api/split', { method: 'POST', body: formData });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(isMergeErrorBody(body) ? body.error : `Server error: ${response.status}`);
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.download = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] ?? 'tiles.zip';
+      link.href = url;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error splitting image:', error);
+      setSplitError(error instanceof Error ? error.message : 'Failed to split image');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const scale = source ? Math.min(1, PREVIEW_WIDTH / source.img.width, PREVIEW_HEIGHT / source.img.height) : 1;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6">
+      <h2 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white">
+        Split Image
+      </h2>
+      <input
+        type="file"
+        accept="image/*"
+        onChange={(e) => selectFile(e.target.files?.[0])}
+        className="block w-full text-sm text-gray-900 dark:text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100 dark:file:bg-blue-900 dark:file:text-blue-300"
+      />
+      <p className="mt-2 mb-6 text-sm text-gray-600 dark:text-gray-400">
+        {source
+          ? `${source.file.name} (${source.img.width} × ${source.img.height})`
+          : 'Choose one large image to cut into lossless PNG tiles.'}
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {(Object.keys(SPLIT_MODE_LABELS) as SplitMode[]).map((option) => (
+          <button
+            key={option}
+            onClick={() => setMode(option)}
+            className={`px-4 py-2 rounded-lg transition-colors ${
+              mode === option
+                ? 'bg-blue-500 text-white'
+                : 'bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-white hover:bg-gray-300 dark:hover:bg-gray-600'
+            }`}
+          >
+            {SPLIT_MODE_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        {mode === 'size' && (
+          <>
+            <label className="block text-sm text-gray-900 dark:text-white">
+              Tile Width (px)
+              <input
+                type="number"
+                min="1"
+                value={tileWidth}
+                onChange={(e) => setTileWidth(Math.max(1, parseInt(e.target.value) || 1))}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="block text-sm text-gray-900 dark:text-white">
+              Tile Height (px)
+              <input
+                type="number"
+                min="1"
+                value={tileHeight}
+                onChange={(e) => setTileHeight(Math.max(1, parseInt(e.target.value) || 1))}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+          </>
+        )}
+        {mode === 'grid' && (
+          <>
+            <label className="block text-sm text-gray-900 dark:text-white">
+              Rows
+              <input
+                type="number"
+                min="1"
+                max="1000"
+                value={rows}
+                onChange={(e) => setRows(Math.min(1000, Math.max(1, parseInt(e.target.value) || 1)))}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="block text-sm text-gray-900 dark:text-white">
+              Columns
+              <input
+                type="number"
+                min="1"
+                max="1000"
+                value={cols}
+                onChange={(e) => setCols(Math.min(1000, Math.max(1, parseInt(e.target.value) || 1)))}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+          </>
+        )}
+        {mode === 'strips' && (
+          <label className="block text-sm text-gray-900 dark:text-white">
+            Max Strip Height (px)
+            <input
+              type="number"
+              min="1"
+              value={stripHeight}
+              onChange={(e) => setStripHeight(Math.max(1, parseInt(e.target.value) || 1))}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+        )}
+      </div>
+
+      {source && (
+        <div className="mb-4">
+          <p className={`mb-2 text-sm ${specError ? 'text-red-600 dark:text-red-400' : 'text-gray-600 dark:text-gray-400'}`}>
+            {specError ?? `${tiles.length} tile${tiles.length === 1 ? '' : 's'}`}
+          </p>
+          <div
+            className="relative bg-gray-100 dark:bg-gray-700"
+            style={{ width: source.img.width * scale, height: source.img.height * scale }}
+          >
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={source.img.src} alt={source.file.name} className="w-full h-full" />
+            {/* Cut lines are only drawn for a readable number of tiles */}
+            {tiles.length <= 400 && tiles.map((tile) => (
+              <div
+                key={`${tile.row}-${tile.col}`}
+                className="absolute border border-red-500/80"
+                style={{
+                  left: tile.left * scale,
+                  top: tile.top * scale,
+                  width: tile.width * scale,
+                  height: tile.height * scale,
+                }}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      <button
+        onClick={splitImage}
+        disabled={!source || specError !== null || isProcessing}
+        className="w-full px-6 py-3 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors font-semibold"
+      >
+        {isProcessing ? 'Splitting...' : 'Split & Download Zip'}
+      </button>
+
+      {splitError && (
+        <div className="mt-4 p-4 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-300">
+          {splitError}
+        </div>
+      )}
+    </div>
+  );
+}
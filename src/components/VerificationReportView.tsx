@@ -0,0 +1,89 @@
+'use client';
+
+import { TILE_STATUS_LABELS, type TileStatus, type VerificationReport } from '@/lib/verify';
+
+const STATUS_CLASSES: Record<TileStatus, string> = {
+  lossless: 'text-green-700 dark:text-green-400',
+  altered: 'text-yellow-700 dark:text-yellow-400',
+  mismatch: 'text-red-600 dark:text-red-400',
+};
+
+// Hashes are shortened in the table; the full value is in the tooltip and the JSON
+const shortHash = (hash: string) => hash.slice(0, 12);
+
+interface VerificationReportViewProps {
+  report: VerificationReport;
+}
+
+// Summary and per-image table of a merge's verification, with the JSON for download
+export default function VerificationReportView({ report }: VerificationReportViewProps) {
+  const { counts, tiles } = report;
+  const hasGroups = tiles.some((tile) => tile.group !== undefined);
+
+  const downloadReport = () => {
+    const url = URL.createObjectURL(new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.download = 'verification.json';
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
+      <h3 className="text-lg font-medium mb-2 text-gray-900 dark:text-white">
+        Verification
+      </h3>
+      <p className={`text-sm font-medium mb-3 ${report.lossless ? STATUS_CLASSES.lossless : counts.mismatch > 0 ? STATUS_CLASSES.mismatch : STATUS_CLASSES.altered}`}>
+        {report.lossless
+          ? `All ${tiles.length} images came through pixel for pixel.`
+          : `${counts.lossless} lossless, ${counts.altered} intentionally not lossless, ${counts.mismatch} mismatched.`}
+      </p>
+      <div className="mb-3 max-h-64 overflow-auto">
+        <table className="w-full text-sm text-left text-gray-900 dark:text-white">
+          <thead className="text-xs text-gray-600 dark:text-gray-400">
+            <tr>
+              <th className="pr-3 py-1">#</th>
+              <th className="pr-3 py-1">Image</th>
+              {hasGroups && <th className="pr-3 py-1">Group</th>}
+              <th className="pr-3 py-1">Page</th>
+              <th className="pr-3 py-1">Status</th>
+              <th className="pr-3 py-1">Input / Output SHA-256</th>
+            </tr>
+          </thead>
+          <tbody>
+            {tiles.map((tile) => (
+              <tr key={`${tile.group ?? ''}-${tile.index}`} className="border-t border-gray-200 dark:border-gray-600 align-top">
+                <td className="pr-3 py-1">{tile.index}</td>
+                <td className="pr-3 py-1 break-all">{tile.name}</td>
+                {hasGroups && <td className="pr-3 py-1">{tile.group}</td>}
+                <td className="pr-3 py-1">{tile.page}</td>
+                <td className="pr-3 py-1">
+                  <span className={`font-medium ${STATUS_CLASSES[tile.status]}`}>{TILE_STATUS_LABELS[tile.status]}</span>
+                  {tile.reasons.length > 0 && (
+                    <span className="block text-xs text-gray-600 dark:text-gray-400">{tile.reasons.join(', ')}</span>
+                  )}
+                  {tile.differentPixels !== null && tile.differentPixels > 0 && (
+                    <span className="block text-xs text-gray-600 dark:text-gray-400">
+                      {tile.differentPixels.toLocaleString()} pixels differ
+                    </span>
+                  )}
+                </td>
+                <td className="pr-3 py-1 font-mono text-xs">
+                  <span className="block" title={tile.inputHash}>{shortHash(tile.inputHash)}</span>
+                  <span className="block" title={tile.outputHash}>{shortHash(tile.outputHash)}</span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <button
+        onClick={downloadReport}
+        className="px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-900 dark:text-white rounded-lg hover:bg-gray-300 dark:hover:bg-gray-500 transition-colors"
+      >
+        Download Report (JSON)
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_BATCH_OPTIONS, groupImages, UNGROUPED, type BatchItem, type BatchOptions } from '@/lib/batch';
+
+const items = (...names: string[]): BatchItem[] => names.map((name) => ({ name, folder: '' }));
+
+const options = (overrides: Partial<BatchOptions>): BatchOptions => ({ ...DEFAULT_BATCH_OPTIONS, ...overrides });
+
+describe('groupImages', () => {
+  it('returns null when batching is off', () => {
+    expect(groupImages(items('a.png'), options({ mode: 'none' }))).toBeNull();
+  });
+
+  it('groups every N images in queue order, with a shorter last group', () => {
+    expect(groupImages(items('a', 'b', 'c', 'd', 'e'), options({ mode: 'count', groupSize: 2 }))).toEqual([
+      { name: 'group-1', indices: [0, 1] },
+      { name: 'group-2', indices: [2, 3] },
+      { name: 'group-3', indices: [4] },
+    ]);
+    const groups = groupImages(items(...'abcdefghijk'), options({ mode: 'count', groupSize: 1 }))!;
+    expect(groups.map((group) => group.name).slice(0, 2)).toEqual(['group-01', 'group-02']);
+  });
+
+  it('groups by the pattern match, ordered by first image', () => {
+    const queue = items('beach_2.jpg', 'alps_1.jpg', 'beach_1.jpg', 'notes.png');
+    expect(groupImages(queue, options({ mode: 'pattern', pattern: '^([a-z]+)_' }))).toEqual([
+      { name: 'beach', indices: [0, 2] },
+      { name: 'alps', indices: [1] },
+      { name: UNGROUPED, indices: [3] },
+    ]);
+    // Without a capture group the whole match names the group
+    expect(groupImages(queue, options({ mode: 'pattern' }))!.map((group) => group.name)).toEqual([
+      'beach', 'alps', 'notes',
+    ]);
+  });
+
+  it('groups by folder, collecting files from no folder', () => {
+    const queue = [
+      { name: 'a.png', folder: 'trip/day1' },
+      { name: 'b.png', folder: '' },
+      { name: 'c.png', folder: 'trip/day1' },
+    ];
+    expect(groupImages(queue, options({ mode: 'folder' }))).toEqual([
+      { name: 'trip/day1', indices: [0, 2] },
+      { name: UNGROUPED, indices: [1] },
+    ]);
+  });
+
+  it('throws for an invalid pattern', () => {
+    expect(() => groupImages(items('a'), options({ mode: 'pattern', pattern: '(' }))).toThrow(SyntaxError);
+  });
+});
@@ -0,0 +1,77 @@
+export type BatchMode = 'none' | 'count' | 'pattern' | 'folder';
+
+export interface BatchOptions {
+  mode: BatchMode;
+  groupSize: number;  // Images per group for `count`
+  pattern: string;  // Regular expression for `pattern`; the first capture group (or whole match) names the group
+}
+
+export interface BatchItem {
+  name: string;  // File name
+  folder: string;  // Folder the file was picked from, or '' when unknown
+}
+
+export interface BatchGroup {
+  name: string;
+  indices: number[];  // Positions in the queue, in queue order
+}
+
+export const DEFAULT_BATCH_OPTIONS: BatchOptions = {
+  mode: 'none',
+  groupSize: 4,
+  pattern: '^[^_\\-. ]+',
+};
+
+export const BATCH_MODE_LABELS: Record<BatchMode, string> = {
+  none: 'Single merge',
+  count: 'Every N images',
+  pattern: 'Filename pattern',
+  folder: 'By folder',
+};
+
+// Group for files a pattern does not match, or that came from no folder
+export const UNGROUPED = 'ungrouped';
+
+// Longest group name the server accepts
+export const MAX_GROUP_NAME_LENGTH = 100;
+
+/**
+ * Split the queue into batch groups, ordered by their first image. Returns
+ * null when batching is off. Throws a SyntaxError for an invalid pattern.
+ */
+export function groupImages(items: BatchItem[], options: BatchOptions): BatchGroup[] | null {
+  if (options.mode === 'none') return null;
+
+  if (options.mode === 'count') {
+    const size = Math.max(1, options.groupSize);
+    const count = Math.ceil(items.length / size);
+    return Array.from({ length: count }, (_, g) => ({
+      name: `group-${String(g + 1).padStart(String(count).length, '0')}`,
+      indices: items.slice(g * size, (g + 1) * size).map((_, i) => g * size + i),
+    }));
+  }
+
+  const pattern = options.mode === 'pattern' ? new RegExp(options.pattern) : null;
+  const groups = new Map<string, number[]>();
+  items.forEach((item, index) => {
+    let key: string | undefined;
+    if (pattern) {
+      const match = item.name.match(pattern);
+      key = match?.[1] ?? match?.[0];
+    } else {
+      key = item.folder;
+    }
+    key = key?.trim().slice(0, MAX_GROUP_NAME_LENGTH) || UNGROUPED;
+
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(index);
+  });
+
+  return Array.from(groups, ([name, indices]) => ({ name, indices }));
+}
+
+/** Folder of a file picked with a directory input, from its relative path. */
+export function fileFolder(file: File): string {
+  const slash = file.webkitRelativePath.lastIndexOf('/');
+  return slash === -1 ? '' : file.webkitRelativePath.slice(0, slash);
+}
@@ -0,0 +1,65 @@
+import type { CaptionPosition, Placement } from '@/lib/layout';
+
+export interface CaptionOptions {
+  template: string;  // Text drawn for each image, with {name}, {index}, {width} and {height} filled in; empty for none
+  position: CaptionPosition;
+  fontSize: number;  // In output pixels
+  color: string;  // Hex text colour
+}
+
+export interface CaptionValues {
+  name: string;
+  index: number;  // 1-based position in the whole queue
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_CAPTION_OPTIONS: CaptionOptions = {
+  template: '',
+  position: 'below',
+  fontSize: 16,
+  color: '#000000',
+};
+
+// Templates offered in the UI; anything else is custom text
+export const CAPTION_PRESETS = [
+  { label: 'Filename', template: '{name}' },
+  { label: 'Index', template: '#{index}' },
+  { label: 'Dimensions', template: '{width} × {height}' },
+  { label: 'Index and filename', template: '{index}. {name}' },
+];
+
+export const CAPTION_FONT_FAMILY = 'sans-serif';
+export const MAX_CAPTION_LENGTH = 200;
+
+// Height of the band reserved for each caption, or 0 when captions are off
+export function captionBandHeight(options: CaptionOptions): number {
+  return options.template ? Math.ceil(options.fontSize * 1.5) : 0;
+}
+
+/** Fill in the placeholders of a caption template. Unknown ones are left as typed. */
+export function formatCaption(template: string, values: CaptionValues): string {
+  return template.replace(/\{(name|index|width|height)\}/g, (_, key: keyof CaptionValues) => String(values[key]));
+}
+
+/**
+ * Draw `text` centred in its caption band, clipped to the band so long
+ * labels cannot spill into neighbouring tiles.
+ */
+export function drawCaption(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  text: string,
+  band: Placement,
+  options: CaptionOptions
+) {
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(band.left, band.top, band.width, band.height);
+  ctx.clip();
+  ctx.font = `${options.fontSize}px ${CAPTION_FONT_FAMILY}`;
+  ctx.fillStyle = options.color;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(text, band.left + band.width / 2, band.top + band.height / 2);
+  ctx.restore();
+}
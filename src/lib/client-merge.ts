@@ -0,0 +1,87 @@
+import type { CaptionOptions } from '@/lib/captions';
+import type { ImageEdit } from '@/lib/image-edit';
+import type { Layout } from '@/lib/layout';
+import type { MergeProgress } from '@/lib/merge-job';
+import type { OutputOptions } from '@/lib/output-format';
+import type { TileVerification } from '@/lib/verify';
+import type { WatermarkOptions } from '@/lib/watermark';
+
+// What the page sends the merge worker
+export interface ClientMergeRequest {
+  images: Array<{ file: File; edit: ImageEdit }>;  // Indexed by the pages' `indices`
+  pages: Array<{ indices: number[]; layout: Layout }>;
+  background: string;
+  output: OutputOptions;  // Must have a `canvasMimeType`
+  captions: CaptionOptions;
+  watermark: WatermarkOptions;  // Kind `none` when there is nothing to draw
+  watermarkImage?: File;  // For image watermarks
+  verify: boolean;  // Read every image back from the encoded pages and compare it
+}
+
+export interface ClientMergeResult {
+  pages: Blob[];
+  verification?: TileVerification[];
+}
+
+// What the merge worker sends back
+export type ClientMergeMessage =
+  | { type: 'progress'; progress: MergeProgress }
+  | { type: 'done'; result: ClientMergeResult }
+  | { type: 'error'; message: string };
+
+export interface ClientMergeHooks {
+  onProgress?: (progress: MergeProgress) => void;
+  signal?: AbortSignal;  // Aborting stops the worker and resolves with null
+}
+
+// Whether this browser can merge off the main thread
+export const canMergeInWorker = () => typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+/**
+ * Merge `request` in a Web Worker, so large merges do not freeze the page.
+ * Resolves with the encoded pages, or null when cancelled through `signal`;
+ * rejects when the browser cannot draw or encode the pages.
+ */
+export function mergeInWorker(
+  request: ClientMergeRequest,
+  { onProgress, signal }: ClientMergeHooks = {}
+): Promise<ClientMergeResult | null> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      resolve(null);
+      return;
+    }
+
+    const worker = new Worker(new URL('./merge.worker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', cancel);
+    };
+    const cancel = () => {
+      finish();
+      resolve(null);
+    };
+    signal?.addEventListener('abort', cancel);
+
+    worker.onmessage = (e: MessageEvent<ClientMergeMessage>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+        return;
+      }
+      finish();
+      if (message.type === 'done') {
+        resolve(message.result);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    // Only reached when the worker itself fails to load or throws outside a merge
+    worker.onerror = (e) => {
+      finish();
+      reject(new Error(e.message || 'The merge worker failed'));
+    };
+
+    worker.postMessage(request);
+  });
+}
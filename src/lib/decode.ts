@@ -0,0 +1,45 @@
+// Vector inputs (SVG, PDF) are rasterized at this many dots per inch; at 72, SVG pixels map one to one
+export const DEFAULT_DECODE_DENSITY = 72;
+export const MAX_DECODE_DENSITY = 1200;
+
+// Longest side of the previews shown for decoded pages; merges decode the original again at full size
+export const DECODE_PREVIEW_SIZE = 1024;
+
+// The decode zip lists its pages, with their full-resolution sizes, in this file
+export const DECODE_MANIFEST_NAME = 'pages.json';
+
+// One entry of the decode manifest
+export interface DecodedPageInfo {
+  name: string;  // Preview file inside the zip, also the page's name in the queue
+  width: number;  // Upright size of the full-resolution page
+  height: number;
+}
+
+// Camera RAW files; only the preview JPEG the camera embeds in them is read
+export const RAW_EXTENSIONS: readonly string[] = ['arw', 'cr2', 'cr3', 'dng', 'nef', 'nrw', 'orf', 'pef', 'raf', 'rw2', 'srw'];
+
+// Formats browsers cannot decode, or that hold several pages, or that are rasterized at a chosen DPI
+const SERVER_DECODED_TYPES: readonly string[] = ['image/heic', 'image/heif', 'image/tiff', 'image/svg+xml', 'application/pdf'];
+const SERVER_DECODED_EXTENSIONS: readonly string[] = ['heic', 'heif', 'tif', 'tiff', 'svg', 'pdf', ...RAW_EXTENSIONS];
+
+// Value of the upload inputs' `accept` attribute: everything the queue can take
+export const ACCEPTED_INPUTS = ['image/*', 'application/pdf', ...SERVER_DECODED_EXTENSIONS.map((ext) => `.${ext}`)].join(',');
+
+export const fileExtension = (name: string) => name.slice(name.lastIndexOf('.') + 1).toLowerCase();
+
+/** Whether a file is decoded by the server's decode endpoint rather than by the browser. */
+export function needsServerDecode(file: { name: string; type: string }): boolean {
+  return SERVER_DECODED_TYPES.includes(file.type) || SERVER_DECODED_EXTENSIONS.includes(fileExtension(file.name));
+}
+
+/** Upload name without its extension, kept to characters safe in zip entries and headers. */
+export function decodedBaseName(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return (dot > 0 ? fileName.slice(0, dot) : fileName).replace(/[^\w.-]+/g, '_') || 'image';
+}
+
+/** Name of a decoded page: the source's name, numbered when it has several pages. */
+export function decodedPageName(baseName: string, page: number, pageCount: number): string {
+  if (pageCount === 1) return `${baseName}.png`;
+  return `${baseName}-page-${String(page).padStart(String(pageCount).length, '0')}.png`;
+}
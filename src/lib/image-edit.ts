@@ -0,0 +1,87 @@
+import type { Placement, Size } from '@/lib/layout';
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+export const ROTATIONS: readonly Rotation[] = [0, 90, 180, 270];
+
+export interface Crop {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Per-image edits, applied in this order: crop (in the EXIF-oriented
+ * source's pixels), clockwise rotation, then mirroring of the rotated result.
+ */
+export interface ImageEdit {
+  crop?: Crop;
+  rotate: Rotation;
+  flipH: boolean;  // Mirror left to right
+  flipV: boolean;  // Mirror top to bottom
+}
+
+export const IDENTITY_EDIT: ImageEdit = { rotate: 0, flipH: false, flipV: false };
+
+export function isIdentityEdit(edit: ImageEdit): boolean {
+  return !edit.crop && edit.rotate === 0 && !edit.flipH && !edit.flipV;
+}
+
+// Size of an image of `size` once `edit` is applied
+export function editedSize(size: Size, edit: ImageEdit): Size {
+  const { width, height } = edit.crop ?? size;
+  return edit.rotate === 90 || edit.rotate === 270 ? { width: height, height: width } : { width, height };
+}
+
+// Whether `crop` is a whole-pixel rectangle inside an image of `size`
+export function isValidCrop(crop: Crop, size: Size): boolean {
+  const values = [crop.left, crop.top, crop.width, crop.height];
+  return (
+    values.every(Number.isInteger) &&
+    crop.left >= 0 &&
+    crop.top >= 0 &&
+    crop.width >= 1 &&
+    crop.height >= 1 &&
+    crop.left + crop.width <= size.width &&
+    crop.top + crop.height <= size.height
+  );
+}
+
+/**
+ * Draw `source` with `edit` applied so it fills `placement` on a canvas.
+ * Mirrors the server, which applies the same edits with sharp. When `source`
+ * is a downscaled preview, `size` is the full image's size, which the crop
+ * is measured in.
+ */
+export function drawEdited(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  source: CanvasImageSource & Size,
+  edit: ImageEdit,
+  placement: Placement,
+  size: Size = source
+): void {
+  const scale = source.width / size.width;
+  const { left, top, width: cropWidth, height: cropHeight } = edit.crop ?? { left: 0, top: 0, ...size };
+  const quarterTurn = edit.rotate === 90 || edit.rotate === 270;
+  // Destination size before rotation
+  const width = quarterTurn ? placement.height : placement.width;
+  const height = quarterTurn ? placement.width : placement.height;
+
+  ctx.save();
+  ctx.translate(placement.left + placement.width / 2, placement.top + placement.height / 2);
+  ctx.scale(edit.flipH ? -1 : 1, edit.flipV ? -1 : 1);
+  ctx.rotate((edit.rotate * Math.PI) / 180);
+  ctx.drawImage(
+    source,
+    left * scale,
+    top * scale,
+    cropWidth * scale,
+    cropHeight * scale,
+    -width / 2,
+    -height / 2,
+    width,
+    height
+  );
+  ctx.restore();
+}
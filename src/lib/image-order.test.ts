@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { moveItem, sortImages, type SortableImage } from '@/lib/image-order';
+
+const image = (name: string, capturedAt = 0, width = 10, height = 10): SortableImage => ({ name, capturedAt, width, height });
+const names = (images: SortableImage[]) => images.map((item) => item.name);
+
+describe('sortImages', () => {
+  it('sorts filenames naturally, ignoring case', () => {
+    const sorted = sortImages([image('img10.png'), image('img2.png'), image('IMG1.png')], 'name', (item) => item);
+    expect(names(sorted)).toEqual(['IMG1.png', 'img2.png', 'img10.png']);
+  });
+
+  it('breaks ties by filename and reverses the whole order when descending', () => {
+    const queue = [image('c', 200), image('b', 100), image('a', 200)];
+    expect(names(sortImages(queue, 'date', (item) => item))).toEqual(['b', 'a', 'c']);
+    expect(names(sortImages(queue, 'date', (item) => item, true))).toEqual(['c', 'a', 'b']);
+  });
+
+  it('sorts by area, then width', () => {
+    const queue = [image('square', 0, 20, 20), image('tall', 0, 10, 40), image('small', 0, 5, 5)];
+    expect(names(sortImages(queue, 'dimensions', (item) => item))).toEqual(['small', 'tall', 'square']);
+  });
+});
+
+describe('moveItem', () => {
+  it('puts the dropped item at the target index, forwards and backwards', () => {
+    const queue = ['a', 'b', 'c', 'd'];
+    expect(moveItem(queue, 0, 2)).toEqual(['b', 'c', 'a', 'd']);
+    expect(moveItem(queue, 3, 1)).toEqual(['a', 'd', 'b', 'c']);
+    expect(moveItem(queue, 1, 3)).toEqual(['a', 'c', 'd', 'b']);
+    expect(queue).toEqual(['a', 'b', 'c', 'd']);
+  });
+});
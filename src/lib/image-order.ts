@@ -0,0 +1,68 @@
+import exifr from 'exifr';
+
+export type SortKey = 'name' | 'date' | 'dimensions';
+
+export interface SortableImage {
+  name: string;
+  capturedAt: number;  // Milliseconds since the epoch
+  width: number;
+  height: number;
+}
+
+export const SORT_LABELS: Record<SortKey, string> = {
+  name: 'Filename',
+  date: 'Capture date',
+  dimensions: 'Dimensions',
+};
+
+// Compares "img2" before "img10", ignoring case and accents
+const naturalCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const COMPARATORS: Record<SortKey, (a: SortableImage, b: SortableImage) => number> = {
+  name: (a, b) => naturalCollator.compare(a.name, b.name),
+  date: (a, b) => a.capturedAt - b.capturedAt,
+  dimensions: (a, b) => a.width * a.height - b.width * b.height || a.width - b.width,
+};
+
+/**
+ * Return `items` sorted by `key`, breaking ties by filename so the order is
+ * stable across clicks. `descending` reverses the whole order.
+ */
+export function sortImages<T>(
+  items: T[],
+  key: SortKey,
+  toSortable: (item: T) => SortableImage,
+  descending = false
+): T[] {
+  const compare = COMPARATORS[key];
+  const sorted = items
+    .map((item) => ({ item, sortable: toSortable(item) }))
+    .sort((a, b) => compare(a.sortable, b.sortable) || COMPARATORS.name(a.sortable, b.sortable))
+    .map(({ item }) => item);
+  return descending ? sorted.reverse() : sorted;
+}
+
+// Move the item at `from` so it ends up at index `to`
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  const result = [...items];
+  const [item] = result.splice(from, 1);
+  result.splice(to, 0, item);
+  return result;
+}
+
+/**
+ * When a photo was taken, from its EXIF data. Falls back to the file's
+ * modification time for images without a capture date.
+ */
+export async function readCaptureTime(file: File): Promise<number> {
+  try {
+    const exif = await exifr.parse(file, ['DateTimeOriginal', 'CreateDate']);
+    const date: unknown = exif?.DateTimeOriginal ?? exif?.CreateDate;
+    if (date instanceof Date && !isNaN(date.getTime())) {
+      return date.getTime();
+    }
+  } catch (error) {
+    console.warn(`Could not read EXIF from ${file.name}:`, error);
+  }
+  return file.lastModified;
+}
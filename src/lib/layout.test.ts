@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeLayout,
+  computeScaledSizes,
+  LayoutError,
+  paginate,
+  resolveGridSize,
+  type LayoutOptions,
+  type Size,
+} from '@/lib/layout';
+
+const size = (width: number, height: number): Size => ({ width, height });
+
+const options = (overrides: Partial<LayoutOptions>): LayoutOptions => ({
+  alignmentMode: 'horizontal',
+  gridRows: 2,
+  gridCols: 2,
+  alignDimension: 'none',
+  ...overrides,
+});
+
+describe('computeLayout', () => {
+  it('returns an empty canvas for no images', () => {
+    expect(computeLayout([], options({}))).toEqual({ width: 0, height: 0, placements: [], captions: [] });
+  });
+
+  it('places images side by side in horizontal mode', () => {
+    const layout = computeLayout(
+      [size(100, 50), size(60, 80)],
+      options({ spacing: 10, padding: 5, alignY: 'center' })
+    );
+    expect(layout.placements).toEqual([
+      { left: 5, top: 20, width: 100, height: 50 },
+      { left: 115, top: 5, width: 60, height: 80 },
+    ]);
+    expect(layout).toMatchObject({ width: 180, height: 90 });
+  });
+
+  it('stacks images in vertical mode', () => {
+    const layout = computeLayout(
+      [size(100, 50), size(60, 80)],
+      options({ alignmentMode: 'vertical', spacing: 10, alignX: 'end' })
+    );
+    expect(layout.placements).toEqual([
+      { left: 0, top: 0, width: 100, height: 50 },
+      { left: 40, top: 60, width: 60, height: 80 },
+    ]);
+    expect(layout).toMatchObject({ width: 100, height: 140 });
+  });
+
+  it('fills a grid row by row in cells of the largest image', () => {
+    const layout = computeLayout(
+      [size(20, 10), size(10, 20), size(10, 10)],
+      options({ alignmentMode: 'grid', spacing: 2, alignX: 'center', alignY: 'end' })
+    );
+    expect(layout.placements).toEqual([
+      { left: 0, top: 10, width: 20, height: 10 },
+      { left: 27, top: 0, width: 10, height: 20 },
+      { left: 5, top: 32, width: 10, height: 10 },
+    ]);
+    expect(layout).toMatchObject({ width: 42, height: 42 });
+  });
+
+  it('grows a manual grid by default when the images overflow it', () => {
+    const layout = computeLayout(Array(5).fill(size(10, 10)), options({ alignmentMode: 'grid' }));
+    expect(layout.placements[4]).toEqual({ left: 0, top: 20, width: 10, height: 10 });
+    expect(layout).toMatchObject({ width: 20, height: 30 });
+  });
+
+  it('breaks justified rows at the row width and stretches all but the last', () => {
+    const layout = computeLayout(
+      [size(300, 100), size(100, 100), size(100, 100), size(100, 100)],
+      options({ alignmentMode: 'justified', rowHeight: 100, spacing: 10 })
+    );
+    expect(layout.placements).toEqual([
+      { left: 0, top: 0, width: 300, height: 100 },
+      { left: 0, top: 110, width: 145, height: 145 },
+      { left: 155, top: 110, width: 145, height: 145 },
+      { left: 0, top: 265, width: 100, height: 100 },
+    ]);
+    expect(layout).toMatchObject({ width: 300, height: 365 });
+  });
+
+  it('drops masonry images into the shortest column', () => {
+    const layout = computeLayout(
+      [size(100, 100), size(100, 200), size(100, 50), size(50, 50)],
+      options({ alignmentMode: 'masonry', masonryCols: 2 })
+    );
+    expect(layout.placements).toEqual([
+      { left: 0, top: 0, width: 100, height: 100 },
+      { left: 100, top: 0, width: 100, height: 200 },
+      { left: 0, top: 100, width: 100, height: 50 },
+      { left: 0, top: 150, width: 100, height: 100 },
+    ]);
+    expect(layout).toMatchObject({ width: 200, height: 250 });
+  });
+
+  it('uses no more masonry columns than images', () => {
+    const layout = computeLayout([size(100, 100), size(100, 100)], options({ alignmentMode: 'masonry', masonryCols: 3 }));
+    expect(layout.width).toBe(200);
+  });
+
+  it('splits each cell into the image and its caption band', () => {
+    const layout = computeLayout(
+      [size(100, 50), size(60, 80)],
+      options({ captionHeight: 20, captionPosition: 'above' })
+    );
+    expect(layout.placements).toEqual([
+      { left: 0, top: 20, width: 100, height: 50 },
+      { left: 100, top: 20, width: 60, height: 80 },
+    ]);
+    expect(layout.captions).toEqual([
+      { left: 0, top: 0, width: 100, height: 20 },
+      { left: 100, top: 0, width: 60, height: 20 },
+    ]);
+    expect(layout.height).toBe(100);
+  });
+});
+
+describe('resolveGridSize', () => {
+  it('keeps a manual grid the images fit in', () => {
+    expect(resolveGridSize(3, options({}))).toEqual({ rows: 2, cols: 2 });
+  });
+
+  it('adds rows or rejects an overflowing manual grid', () => {
+    expect(resolveGridSize(5, options({ gridOverflow: 'grow' }))).toEqual({ rows: 3, cols: 2 });
+    expect(() => resolveGridSize(5, options({ gridOverflow: 'reject' }))).toThrow(LayoutError);
+  });
+
+  it('derives the missing dimension in the auto modes', () => {
+    expect(resolveGridSize(5, options({ gridFit: 'square' }))).toEqual({ rows: 2, cols: 3 });
+    expect(resolveGridSize(5, options({ gridFit: 'fixed-cols' }))).toEqual({ rows: 3, cols: 2 });
+    expect(resolveGridSize(5, options({ gridFit: 'fixed-rows' }))).toEqual({ rows: 2, cols: 3 });
+  });
+});
+
+describe('paginate', () => {
+  it('splits an overflowing manual grid into full pages', () => {
+    expect(paginate(5, options({ alignmentMode: 'grid', gridOverflow: 'paginate' }))).toEqual([[0, 1, 2, 3], [4]]);
+  });
+
+  it('keeps a single page otherwise', () => {
+    expect(paginate(5, options({ alignmentMode: 'grid', gridOverflow: 'grow' }))).toEqual([[0, 1, 2, 3, 4]]);
+    expect(paginate(5, options({ gridOverflow: 'paginate' }))).toEqual([[0, 1, 2, 3, 4]]);
+    expect(paginate(5, options({ alignmentMode: 'grid', gridFit: 'square', gridOverflow: 'paginate' }))).toHaveLength(1);
+  });
+});
+
+describe('computeScaledSizes', () => {
+  it('shrinks to a manual resize but never enlarges', () => {
+    expect(computeScaledSizes([size(100, 50), size(40, 40)], options({ resizeWidth: 50 }))).toEqual([
+      size(50, 25),
+      size(40, 40),
+    ]);
+    expect(computeScaledSizes([size(100, 50)], options({ resizeWidth: 80, resizeHeight: 20 }))).toEqual([size(40, 20)]);
+  });
+
+  it('lets a manual resize take precedence over alignment', () => {
+    expect(
+      computeScaledSizes([size(100, 50), size(50, 50)], options({ resizeWidth: 50, alignDimension: 'width' }))
+    ).toEqual([size(50, 25), size(50, 50)]);
+  });
+
+  it('scales every image to the widest or tallest one', () => {
+    expect(computeScaledSizes([size(100, 50), size(50, 50)], options({ alignDimension: 'width' }))).toEqual([
+      size(100, 50),
+      size(100, 100),
+    ]);
+    expect(computeScaledSizes([size(100, 50), size(50, 100)], options({ alignDimension: 'height' }))).toEqual([
+      size(200, 100),
+      size(50, 100),
+    ]);
+  });
+
+  it('keeps the original sizes without resize or alignment', () => {
+    const sizes = [size(100, 50), size(50, 100)];
+    expect(computeScaledSizes(sizes, options({}))).toEqual(sizes);
+  });
+});
@@ -0,0 +1,339 @@
+export type AlignmentMode = 'horizontal' | 'vertical' | 'grid' | 'justified' | 'masonry';
+export type AlignDimension = 'none' | 'width' | 'height';
+export type CrossAlign = 'start' | 'center' | 'end';
+export type GridFit = 'manual' | 'square' | 'fixed-cols' | 'fixed-rows';
+export type GridOverflow = 'grow' | 'reject' | 'paginate';
+export type CaptionPosition = 'above' | 'below';
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface Placement {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface LayoutOptions {
+  alignmentMode: AlignmentMode;
+  gridRows: number;
+  gridCols: number;
+  gridFit?: GridFit;  // How rows/cols are derived from the image count
+  gridOverflow?: GridOverflow;  // What to do when a manual grid is too small
+  rowHeight?: number;  // Target row height for justified mode
+  masonryCols?: number;  // Column count for masonry mode
+  resizeWidth?: number;
+  resizeHeight?: number;
+  alignDimension: AlignDimension;
+  spacing?: number;  // Gap between adjacent images, in pixels
+  padding?: number;  // Margin around the whole canvas, in pixels
+  alignX?: CrossAlign;  // Horizontal position inside a column or grid cell
+  alignY?: CrossAlign;  // Vertical position inside a row or grid cell
+  captionHeight?: number;  // Height of the label band attached to each image; never scaled
+  captionPosition?: CaptionPosition;
+}
+
+export interface Layout {
+  width: number;
+  height: number;
+  placements: Placement[];
+  captions: Placement[];  // Label band of each image; empty without captions
+}
+
+// Largest width or height libvips will create
+export const MAX_DIMENSION = 10_000_000;
+
+export class LayoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LayoutError';
+  }
+}
+
+// Scale a size by a factor, never collapsing a side to zero
+const scaleSize = (size: Size, scale: number): Size => ({
+  width: Math.max(1, Math.round(size.width * scale)),
+  height: Math.max(1, Math.round(size.height * scale)),
+});
+
+// Offset of an item of `size` placed inside a slot of `space` pixels
+const alignOffset = (space: number, size: number, align: CrossAlign = 'start'): number => {
+  if (align === 'center') return Math.floor((space - size) / 2);
+  if (align === 'end') return space - size;
+  return 0;
+};
+
+/**
+ * Resolve the grid dimensions for `count` images. Auto modes derive the
+ * missing dimension from the count; a manual grid that is too small either
+ * grows extra rows or is rejected, depending on `gridOverflow`.
+ */
+export function resolveGridSize(count: number, options: LayoutOptions): { rows: number; cols: number } {
+  const n = Math.max(1, count);
+
+  if (options.gridFit === 'square') {
+    const cols = Math.ceil(Math.sqrt(n));
+    return { rows: Math.ceil(n / cols), cols };
+  }
+  if (options.gridFit === 'fixed-cols') {
+    return { rows: Math.ceil(n / options.gridCols), cols: options.gridCols };
+  }
+  if (options.gridFit === 'fixed-rows') {
+    return { rows: options.gridRows, cols: Math.ceil(n / options.gridRows) };
+  }
+
+  const { gridRows: rows, gridCols: cols } = options;
+  if (count <= rows * cols) {
+    return { rows, cols };
+  }
+  if ((options.gridOverflow ?? 'grow') === 'grow') {
+    return { rows: Math.ceil(count / cols), cols };
+  }
+  throw new LayoutError(`${count} images do not fit in a ${rows} × ${cols} grid`);
+}
+
+/**
+ * Split image indices into output pages. Only a manual grid with the
+ * `paginate` overflow policy yields more than one page.
+ */
+export function paginate(count: number, options: LayoutOptions): number[][] {
+  const indices = Array.from({ length: count }, (_, i) => i);
+  const pageSize = options.gridRows * options.gridCols;
+
+  if (
+    options.alignmentMode !== 'grid' ||
+    (options.gridFit ?? 'manual') !== 'manual' ||
+    options.gridOverflow !== 'paginate' ||
+    count <= pageSize
+  ) {
+    return [indices];
+  }
+
+  const pages: number[][] = [];
+  for (let start = 0; start < count; start += pageSize) {
+    pages.push(indices.slice(start, start + pageSize));
+  }
+  return pages;
+}
+
+/**
+ * Compute the size each image is drawn at. Mirrors sharp's `fit: 'inside'`:
+ * a manual resize never enlarges, while alignment scales every image to the
+ * largest width or height in the batch. Manual resize takes precedence.
+ */
+export function computeScaledSizes(sizes: Size[], options: LayoutOptions): Size[] {
+  const { resizeWidth, resizeHeight, alignDimension } = options;
+
+  if (resizeWidth || resizeHeight) {
+    return sizes.map((size) => {
+      const scale = Math.min(
+        1,
+        resizeWidth ? resizeWidth / size.width : Infinity,
+        resizeHeight ? resizeHeight / size.height : Infinity
+      );
+      return scale === 1 ? { ...size } : scaleSize(size, scale);
+    });
+  }
+
+  if (alignDimension === 'width') {
+    const targetWidth = Math.max(...sizes.map((s) => s.width));
+    return sizes.map((size) =>
+      size.width === targetWidth ? { ...size } : { ...scaleSize(size, targetWidth / size.width), width: targetWidth }
+    );
+  }
+
+  if (alignDimension === 'height') {
+    const targetHeight = Math.max(...sizes.map((s) => s.height));
+    return sizes.map((size) =>
+      size.height === targetHeight ? { ...size } : { ...scaleSize(size, targetHeight / size.height), height: targetHeight }
+    );
+  }
+
+  return sizes.map((size) => ({ ...size }));
+}
+
+// Flickr-style rows: fill each row to a common width, then scale it to fit exactly.
+// Returns the cells of each image plus its caption band.
+function layoutJustified(
+  scaled: Size[],
+  spacing: number,
+  padding: number,
+  targetHeight: number,
+  band: number
+): Omit<Layout, 'captions'> {
+  const atTarget = scaled.map((size) => Math.max(1, Math.round((size.width * targetHeight) / size.height)));
+  // No explicit canvas width, so pick one that gives a roughly square result
+  const totalWidth = atTarget.reduce((sum, w) => sum + w + spacing, 0);
+  const rowWidth = Math.max(Math.ceil(Math.sqrt(totalWidth * targetHeight)), ...atTarget);
+
+  const placements: Placement[] = [];
+  let yOffset = padding;
+  let start = 0;
+  while (start < scaled.length) {
+    let end = start;
+    let used = 0;
+    while (end < scaled.length && (end === start || used + spacing + atTarget[end] <= rowWidth)) {
+      used += (end === start ? 0 : spacing) + atTarget[end];
+      end++;
+    }
+
+    const gaps = spacing * (end - start - 1);
+    const isLastRow = end === scaled.length;
+    // The last row keeps the target height instead of being stretched
+    const scale = isLastRow && used < rowWidth ? 1 : (rowWidth - gaps) / (used - gaps);
+    const height = Math.max(1, Math.round(targetHeight * scale));
+
+    let xOffset = padding;
+    for (let i = start; i < end; i++) {
+      const width = i === end - 1 && scale !== 1
+        ? padding + rowWidth - xOffset  // Absorb rounding so the row ends flush
+        : Math.max(1, Math.round(atTarget[i] * scale));
+      placements.push({ left: xOffset, top: yOffset, width, height: height + band });
+      xOffset += width + spacing;
+    }
+
+    yOffset += height + band + spacing;
+    start = end;
+  }
+
+  return {
+    width: rowWidth + padding * 2,
+    height: yOffset - spacing + padding,
+    placements,
+  };
+}
+
+// Pinterest-style columns: scale to a common width, then drop each image into the shortest column.
+// Returns the cells of each image plus its caption band.
+function layoutMasonry(
+  scaled: Size[],
+  spacing: number,
+  padding: number,
+  columns: number,
+  band: number
+): Omit<Layout, 'captions'> {
+  const cols = Math.max(1, Math.min(columns, scaled.length));
+  const columnWidth = Math.max(...scaled.map((s) => s.width));
+  const columnHeights = new Array<number>(cols).fill(0);
+
+  const placements = scaled.map((size) => {
+    const height = Math.max(1, Math.round((size.height * columnWidth) / size.width)) + band;
+    const col = columnHeights.indexOf(Math.min(...columnHeights));
+    const placement: Placement = {
+      left: padding + col * (columnWidth + spacing),
+      top: padding + columnHeights[col],
+      width: columnWidth,
+      height,
+    };
+    columnHeights[col] += height + spacing;
+    return placement;
+  });
+
+  return {
+    width: columnWidth * cols + spacing * (cols - 1) + padding * 2,
+    height: Math.max(...columnHeights) - spacing + padding * 2,
+    placements,
+  };
+}
+
+/**
+ * Compute the canvas size and where each image is placed on it.
+ * Shared by the client canvas renderer and the server-side sharp compositor
+ * so both produce identical geometry.
+ */
+export function computeLayout(sizes: Size[], options: LayoutOptions): Layout {
+  if (sizes.length === 0) {
+    return { width: 0, height: 0, placements: [], captions: [] };
+  }
+
+  const band = options.captionHeight ?? 0;
+  const cells = layoutCells(computeScaledSizes(sizes, options), options, band);
+  if (band === 0) {
+    return { ...cells, captions: [] };
+  }
+
+  // Split every cell into the image and the band above or below it
+  const above = options.captionPosition === 'above';
+  return {
+    width: cells.width,
+    height: cells.height,
+    placements: cells.placements.map((cell) => ({
+      ...cell,
+      top: above ? cell.top + band : cell.top,
+      height: cell.height - band,
+    })),
+    captions: cells.placements.map((cell) => ({
+      ...cell,
+      top: above ? cell.top : cell.top + cell.height - band,
+      height: band,
+    })),
+  };
+}
+
+// Lay out cells holding each scaled image plus `band` pixels of caption
+function layoutCells(scaled: Size[], options: LayoutOptions, band: number): Omit<Layout, 'captions'> {
+  const spacing = options.spacing ?? 0;
+  const padding = options.padding ?? 0;
+
+  if (options.alignmentMode === 'justified') {
+    return layoutJustified(scaled, spacing, padding, options.rowHeight ?? 400, band);
+  }
+  if (options.alignmentMode === 'masonry') {
+    return layoutMasonry(scaled, spacing, padding, options.masonryCols ?? 3, band);
+  }
+
+  // The remaining modes never rescale, so the band can simply extend each image
+  scaled = scaled.map((size) => ({ width: size.width, height: size.height + band }));
+
+  const placements: Placement[] = [];
+  let width = 0;
+  let height = 0;
+
+  if (options.alignmentMode === 'horizontal') {
+    const rowHeight = Math.max(...scaled.map((s) => s.height));
+    let xOffset = padding;
+    for (const size of scaled) {
+      placements.push({
+        left: xOffset,
+        top: padding + alignOffset(rowHeight, size.height, options.alignY),
+        ...size,
+      });
+      xOffset += size.width + spacing;
+    }
+    width = xOffset - spacing + padding;
+    height = rowHeight + padding * 2;
+  } else if (options.alignmentMode === 'vertical') {
+    const columnWidth = Math.max(...scaled.map((s) => s.width));
+    let yOffset = padding;
+    for (const size of scaled) {
+      placements.push({
+        left: padding + alignOffset(columnWidth, size.width, options.alignX),
+        top: yOffset,
+        ...size,
+      });
+      yOffset += size.height + spacing;
+    }
+    width = columnWidth + padding * 2;
+    height = yOffset - spacing + padding;
+  } else if (options.alignmentMode === 'grid') {
+    const { rows, cols } = resolveGridSize(scaled.length, options);
+    const cellWidth = Math.max(...scaled.map((s) => s.width));
+    const cellHeight = Math.max(...scaled.map((s) => s.height));
+    scaled.forEach((size, index) => {
+      const row = Math.floor(index / cols);
+      const col = index % cols;
+      placements.push({
+        left: padding + col * (cellWidth + spacing) + alignOffset(cellWidth, size.width, options.alignX),
+        top: padding + row * (cellHeight + spacing) + alignOffset(cellHeight, size.height, options.alignY),
+        ...size,
+      });
+    });
+    width = cellWidth * cols + spacing * (cols - 1) + padding * 2;
+    height = cellHeight * rows + spacing * (rows - 1) + padding * 2;
+  }
+
+  return { width, height, placements };
+}
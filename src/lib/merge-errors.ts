@@ -0,0 +1,53 @@
+export type MergeErrorCode =
+  | 'invalid_field'
+  | 'no_images'
+  | 'too_many_files'
+  | 'file_too_large'
+  | 'request_too_large'
+  | 'unsupported_image'
+  | 'input_too_large'
+  | 'output_too_large'
+  | 'invalid_layout'
+  | 'unsupported_output'
+  | 'job_not_found'
+  | 'job_not_ready'
+  | 'not_verified'
+  | 'internal';
+
+// JSON body of every error response from the merge API
+export interface MergeErrorBody {
+  code: MergeErrorCode;
+  error: string;  // Human-readable description of this particular failure
+  field?: string;  // Form field or file name the error refers to
+}
+
+// What the user can do about each kind of failure
+const MERGE_ERROR_HINTS: Partial<Record<MergeErrorCode, string>> = {
+  no_images: 'Add at least one image before merging.',
+  too_many_files: 'Remove some images or merge them in smaller batches.',
+  file_too_large: 'Resize or recompress the largest images before uploading them.',
+  request_too_large: 'Remove some images or merge them in smaller batches.',
+  unsupported_image: 'Remove that file or convert it to PNG, JPEG, WebP, AVIF or TIFF.',
+  input_too_large: 'The image is larger than the server accepts. Scale it down first.',
+  output_too_large: 'Use resize options, fewer images or a paginated grid to shrink the result.',
+  invalid_layout: 'Adjust the grid size or overflow policy.',
+  unsupported_output: 'Choose a different output format.',
+  job_not_found: 'The merge expired or the server restarted. Please merge again.',
+  not_verified: 'Turn on verification before merging to get a report.',
+};
+
+// Turn an error body into a message for display
+export function describeMergeError(body: MergeErrorBody): string {
+  const hint = MERGE_ERROR_HINTS[body.code];
+  return hint ? `${body.error}. ${hint}` : body.error;
+}
+
+// Whether a parsed JSON response is a merge API error
+export function isMergeErrorBody(value: unknown): value is MergeErrorBody {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as MergeErrorBody).code === 'string' &&
+    typeof (value as MergeErrorBody).error === 'string'
+  );
+}
@@ -0,0 +1,45 @@
+import type { MergeErrorBody } from '@/lib/merge-errors';
+
+export type MergePhase = 'decode' | 'prepare' | 'resize' | 'composite' | 'encode' | 'verify';
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface MergeProgress {
+  phase: MergePhase;
+  completed: number;  // Steps finished within the current phase
+  total: number;
+  page: number;  // 1-based page being rendered; 0 while reading inputs
+  pageCount: number;
+  group?: number;  // 1-based group being merged, for batch merges
+  groupCount?: number;
+}
+
+// Job state as reported by the jobs API
+export interface JobState {
+  id: string;
+  status: JobStatus;
+  progress: MergeProgress | null;
+  error?: MergeErrorBody;  // Set when the job failed
+}
+
+export const MERGE_PHASE_LABELS: Record<MergePhase, string> = {
+  decode: 'Reading images',
+  prepare: 'Preparing images',
+  resize: 'Resizing images',
+  composite: 'Compositing',
+  encode: 'Encoding',
+  verify: 'Verifying',
+};
+
+// Whether a job has stopped changing
+export function isFinished(status: JobStatus): boolean {
+  return status === 'done' || status === 'failed' || status === 'cancelled';
+}
+
+// One-line description of a job's progress, such as "Compositing (group 2 of 3, page 1 of 4): 5 / 8"
+export function formatProgress(progress: MergeProgress): string {
+  const where = [
+    progress.groupCount && progress.groupCount > 1 ? `group ${progress.group} of ${progress.groupCount}` : '',
+    progress.pageCount > 1 && progress.page > 0 ? `page ${progress.page} of ${progress.pageCount}` : '',
+  ].filter(Boolean).join(', ');
+  return `${MERGE_PHASE_LABELS[progress.phase]}${where ? ` (${where})` : ''}: ${progress.completed} / ${progress.total}`;
+}
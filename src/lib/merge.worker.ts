@@ -0,0 +1,225 @@
+// Runs the browser-side merge off the main thread: one request in, progress and the encoded pages out
+
+import { drawCaption, formatCaption } from '@/lib/captions';
+import type { ClientMergeMessage, ClientMergeRequest, ClientMergeResult } from '@/lib/client-merge';
+import { drawEdited, editedSize, type ImageEdit } from '@/lib/image-edit';
+import type { Layout, Placement } from '@/lib/layout';
+import type { MergeProgress } from '@/lib/merge-job';
+import { canvasMimeType, isLossless, OUTPUT_FORMATS } from '@/lib/output-format';
+import {
+  countDifferentPixels,
+  hashSamples,
+  hasTransparency,
+  overlaps,
+  resizedReason,
+  tileStatus,
+  type TileVerification,
+} from '@/lib/verify';
+import { canvasWatermarkPlacements, drawWatermark } from '@/lib/watermark';
+
+const send = (message: ClientMergeMessage) => postMessage(message);
+
+function context(width: number, height: number): OffscreenCanvasRenderingContext2D {
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  // Browsers refuse canvases past their size limit rather than throwing
+  if (!ctx || canvas.width !== width || canvas.height !== height) {
+    throw new Error('Canvas creation failed - size too large');
+  }
+  return ctx;
+}
+
+// One merge in progress: the request, its decoded watermark and where progress goes
+interface WorkerMerge {
+  request: ClientMergeRequest;
+  watermarkImage?: ImageBitmap;
+  report: (progress: Omit<MergeProgress, 'pageCount'>) => void;
+}
+
+// createImageBitmap applies EXIF orientation, as <img> does when laying out
+const decode = (blob: Blob) => createImageBitmap(blob, { imageOrientation: 'from-image' });
+
+/**
+ * The part of `bitmap` that `edit` keeps, scaled to fill `placement`, or null
+ * when the layout draws the image at its kept size. Scaling while creating
+ * the bitmap uses the browser's high-quality filter, where drawImage may
+ * only interpolate bilinearly.
+ */
+async function resample(bitmap: ImageBitmap, edit: ImageEdit, placement: Placement): Promise<ImageBitmap | null> {
+  const size = editedSize(bitmap, edit);
+  if (size.width === placement.width && size.height === placement.height) return null;
+
+  const crop = edit.crop ?? { left: 0, top: 0, width: bitmap.width, height: bitmap.height };
+  // The crop is scaled before it is rotated, so quarter turns swap the target's sides
+  const quarterTurn = edit.rotate === 90 || edit.rotate === 270;
+  return createImageBitmap(bitmap, crop.left, crop.top, crop.width, crop.height, {
+    resizeWidth: quarterTurn ? placement.height : placement.width,
+    resizeHeight: quarterTurn ? placement.width : placement.height,
+    resizeQuality: 'high',
+  });
+}
+
+// Read every image back out of an encoded page and compare it with the image drawn on its own
+async function verifyPage(
+  { request, watermarkImage, report }: WorkerMerge,
+  page: { indices: number[]; layout: Layout },
+  pageNumber: number,
+  encoded: Blob,
+  bitmaps: Map<number, ImageBitmap>
+): Promise<TileVerification[]> {
+  const { output, watermark, background, images } = request;
+  const { indices, layout } = page;
+  const lossyReasons = isLossless(output) ? [] : [`lossy ${OUTPUT_FORMATS[output.format].label} encoding`];
+  // Same condition as the background fill in renderPage
+  const blended = background !== 'transparent' || canvasMimeType(output) === 'image/jpeg';
+
+  const decoded = await decode(encoded);
+  const pageCtx = context(layout.width, layout.height);
+  pageCtx.drawImage(decoded, 0, 0);
+  decoded.close();
+
+  const marks = watermark.target === 'merged'
+    ? canvasWatermarkPlacements(pageCtx, { left: 0, top: 0, width: layout.width, height: layout.height }, watermark, watermarkImage)
+    : [];
+
+  const tiles: TileVerification[] = [];
+  for (const [i, imageIndex] of indices.entries()) {
+    report({ phase: 'verify', completed: i, total: indices.length, page: pageNumber });
+    const bitmap = bitmaps.get(imageIndex)!;
+    const { file, edit } = images[imageIndex];
+    const placement = layout.placements[i];
+    const size = editedSize(bitmap, edit);
+    const inputCtx = context(size.width, size.height);
+    drawEdited(inputCtx, bitmap, edit, { left: 0, top: 0, ...size });
+    const input = inputCtx.getImageData(0, 0, size.width, size.height).data;
+    const placed = pageCtx.getImageData(placement.left, placement.top, placement.width, placement.height).data;
+
+    const resized = size.width !== placement.width || size.height !== placement.height;
+    const reasons = [...lossyReasons];
+    if (resized) reasons.push(resizedReason(size, placement));
+    if (watermark.kind !== 'none' && (watermark.target === 'tile' || marks.some((mark) => overlaps(mark, placement)))) {
+      reasons.push('watermarked');
+    }
+    if (blended && hasTransparency(input, 255)) {
+      reasons.push('transparent pixels blended with the background');
+    }
+
+    const differentPixels = resized ? null : countDifferentPixels(input, placed);
+    tiles.push({
+      index: imageIndex + 1,
+      name: file.name,
+      page: pageNumber,
+      placement,
+      status: tileStatus(differentPixels, reasons),
+      reasons,
+      inputHash: await hashSamples(input),
+      outputHash: await hashSamples(placed),
+      differentPixels,
+    });
+  }
+  return tiles;
+}
+
+// Draw and encode one page, decoding only the images on it
+async function renderPage(
+  merge: WorkerMerge,
+  page: { indices: number[]; layout: Layout },
+  pageNumber: number
+): Promise<{ blob: Blob; verification: TileVerification[] }> {
+  const { request, watermarkImage, report } = merge;
+  const { images, output, background, captions, watermark } = request;
+  const { indices, layout } = page;
+  const mimeType = canvasMimeType(output) ?? 'image/png';
+
+  const bitmaps = new Map<number, ImageBitmap>();
+  try {
+    for (const [i, imageIndex] of indices.entries()) {
+      report({ phase: 'decode', completed: i, total: indices.length, page: pageNumber });
+      bitmaps.set(imageIndex, await decode(images[imageIndex].file));
+    }
+
+    const ctx = context(layout.width, layout.height);
+
+    // JPEG has no alpha channel, so transparent areas become white
+    if (background !== 'transparent' || mimeType === 'image/jpeg') {
+      ctx.fillStyle = background === 'transparent' ? '#ffffff' : background;
+      ctx.fillRect(0, 0, layout.width, layout.height);
+    }
+
+    ctx.imageSmoothingQuality = 'high';
+    for (const [i, imageIndex] of indices.entries()) {
+      report({ phase: 'composite', completed: i, total: indices.length, page: pageNumber });
+      const placement = layout.placements[i];
+      const { edit } = images[imageIndex];
+      const scaled = await resample(bitmaps.get(imageIndex)!, edit, placement);
+      if (scaled) {
+        // Already cropped and sized; only the rotation and mirroring are left to draw
+        drawEdited(ctx, scaled, { ...edit, crop: undefined }, placement);
+        scaled.close();
+      } else {
+        drawEdited(ctx, bitmaps.get(imageIndex)!, edit, placement);
+      }
+      if (watermark.target === 'tile') {
+        drawWatermark(ctx, placement, watermark, watermarkImage);
+      }
+    }
+
+    layout.captions.forEach((band, i) => {
+      const imageIndex = indices[i];
+      const text = formatCaption(captions.template, {
+        name: images[imageIndex].file.name,
+        index: imageIndex + 1,
+        ...editedSize(bitmaps.get(imageIndex)!, images[imageIndex].edit),
+      });
+      drawCaption(ctx, text, band, captions);
+    });
+
+    if (watermark.target === 'merged') {
+      drawWatermark(ctx, { left: 0, top: 0, width: layout.width, height: layout.height }, watermark, watermarkImage);
+    }
+
+    report({ phase: 'encode', completed: 0, total: 1, page: pageNumber });
+    const blob = await ctx.canvas.convertToBlob({ type: mimeType, quality: output.quality / 100 });
+    if (blob.size === 0) {
+      throw new Error('Canvas rendering failed');
+    }
+
+    const verification = request.verify
+      ? await verifyPage(merge, page, pageNumber, blob, bitmaps)
+      : [];
+    return { blob, verification };
+  } finally {
+    bitmaps.forEach((bitmap) => bitmap.close());
+  }
+}
+
+async function mergePages(request: ClientMergeRequest): Promise<ClientMergeResult> {
+  const pageCount = request.pages.length;
+  const merge: WorkerMerge = {
+    request,
+    // Decoded once; image watermarks are drawn on every page
+    watermarkImage: request.watermark.kind === 'image' && request.watermarkImage
+      ? await decode(request.watermarkImage)
+      : undefined,
+    report: (progress) => send({ type: 'progress', progress: { ...progress, pageCount } }),
+  };
+  try {
+    const pages: Blob[] = [];
+    const verification: TileVerification[] = [];
+    for (const [p, page] of request.pages.entries()) {
+      const rendered = await renderPage(merge, page, p + 1);
+      pages.push(rendered.blob);
+      verification.push(...rendered.verification);
+    }
+    return { pages, ...(request.verify && { verification }) };
+  } finally {
+    merge.watermarkImage?.close();
+  }
+}
+
+addEventListener('message', (e: MessageEvent<ClientMergeRequest>) => {
+  mergePages(e.data).then(
+    (result) => send({ type: 'done', result }),
+    (error) => send({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+  );
+});
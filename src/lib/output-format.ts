@@ -0,0 +1,101 @@
+import type { PyramidLayout } from '@/lib/pyramid';
+
+export type OutputFormat = 'png' | 'webp' | 'avif' | 'tiff' | 'jxl' | 'jpeg';
+export type TiffCompression = 'deflate' | 'lzw';
+export type ColorProfile = 'srgb' | 'p3' | 'input';
+
+export interface OutputOptions {
+  format: OutputFormat;
+  lossless: boolean;  // Ignored by PNG/TIFF (always lossless) and JPEG (never)
+  quality: number;  // 1-100, used by lossy encodings only
+  compressionLevel: number;  // PNG zlib level, 0-9
+  tiffCompression: TiffCompression;
+  preserveBitDepth: boolean;  // Keep 16-bit output when the inputs are 16-bit
+  colorProfile: ColorProfile;  // 'input' embeds the first image's ICC profile
+  keepMetadata: boolean;  // Carry EXIF/XMP over from the first image
+  pyramid: PyramidLayout;  // Write a zipped tile pyramid instead of one image
+}
+
+export interface OutputFormatInfo {
+  label: string;
+  mimeType: string;
+  extension: string;
+  supportsLossless: boolean;
+  supportsLossy: boolean;
+  supports16Bit: boolean;
+}
+
+export const OUTPUT_FORMATS: Record<OutputFormat, OutputFormatInfo> = {
+  png: { label: 'PNG', mimeType: 'image/png', extension: 'png', supportsLossless: true, supportsLossy: false, supports16Bit: true },
+  webp: { label: 'WebP', mimeType: 'image/webp', extension: 'webp', supportsLossless: true, supportsLossy: true, supports16Bit: false },
+  avif: { label: 'AVIF', mimeType: 'image/avif', extension: 'avif', supportsLossless: true, supportsLossy: true, supports16Bit: false },
+  tiff: { label: 'TIFF', mimeType: 'image/tiff', extension: 'tiff', supportsLossless: true, supportsLossy: false, supports16Bit: true },
+  jxl: { label: 'JPEG XL', mimeType: 'image/jxl', extension: 'jxl', supportsLossless: true, supportsLossy: true, supports16Bit: false },
+  jpeg: { label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg', supportsLossless: false, supportsLossy: true, supports16Bit: false },
+};
+
+export const DEFAULT_OUTPUT_OPTIONS: OutputOptions = {
+  format: 'png',
+  lossless: true,
+  quality: 90,
+  compressionLevel: 0,
+  tiffCompression: 'deflate',
+  preserveBitDepth: false,
+  colorProfile: 'srgb',
+  keepMetadata: false,
+  pyramid: 'none',
+};
+
+// Whether the chosen settings actually produce a lossless file
+export function isLossless(options: OutputOptions): boolean {
+  const info = OUTPUT_FORMATS[options.format];
+  return info.supportsLossless && (!info.supportsLossy || options.lossless);
+}
+
+/**
+ * Mime type the browser canvas can encode these settings to, or null when
+ * only the server can. Canvas WebP/JPEG are always lossy.
+ */
+export function canvasMimeType(options: OutputOptions): string | null {
+  // The canvas is always 8-bit sRGB and drops metadata
+  if (options.preserveBitDepth || options.colorProfile !== 'srgb' || options.keepMetadata) return null;
+  if (options.pyramid !== 'none') return null;
+  if (options.format === 'png') return 'image/png';
+  if (options.format === 'jpeg') return 'image/jpeg';
+  if (options.format === 'webp' && !options.lossless) return 'image/webp';
+  return null;
+}
+
+/**
+ * Rough output size from pixel count. Real sizes depend heavily on content,
+ * so this is only meant for a "~12 MB" hint in the UI.
+ */
+export function estimateOutputBytes(pixels: number, options: OutputOptions): number {
+  const q = options.quality / 100;
+  let bytesPerPixel: number;
+
+  switch (options.format) {
+    case 'png':
+      bytesPerPixel = options.compressionLevel === 0 ? 4 : 2.2 - options.compressionLevel * 0.08;
+      break;
+    case 'tiff':
+      bytesPerPixel = options.tiffCompression === 'lzw' ? 2.4 : 2;
+      break;
+    case 'jpeg':
+      bytesPerPixel = 0.1 + q * 0.6;
+      break;
+    default:
+      bytesPerPixel = isLossless(options) ? 1.3 : 0.08 + q * 0.35;
+  }
+
+  // Lower pyramid levels add about a third on top of the full-resolution tiles
+  const pyramidFactor = options.pyramid === 'none' ? 1 : 4 / 3;
+  return Math.round(pixels * bytesPerPixel * pyramidFactor);
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
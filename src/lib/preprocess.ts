@@ -0,0 +1,45 @@
+export interface PreprocessOptions {
+  trimBorders: boolean;  // Remove uniform borders around each image
+  trimThreshold: number;  // 0-255 difference from the border colour still counted as border
+  stitchOverlap: boolean;  // Drop content repeated between neighbours (horizontal/vertical only)
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  trimBorders: false,
+  trimThreshold: 10,
+  stitchOverlap: false,
+};
+
+// Whether any step runs, which needs the server
+export function needsPreprocessing(options: PreprocessOptions): boolean {
+  return options.trimBorders || options.stitchOverlap;
+}
+
+/**
+ * Length of the longest run of lines that ends `before` and starts `after`,
+ * where lines are compared by key (e.g. a hash of each pixel row). Runs for
+ * which `accept` returns false are skipped in favour of shorter ones.
+ * Linear time, using the KMP failure function over `after` + `before`.
+ */
+export function findOverlap(
+  before: string[],
+  after: string[],
+  accept: (length: number) => boolean = () => true
+): number {
+  // A separator no real key equals keeps matches from spanning both lists
+  const sequence = [...after, '\0', ...before];
+  const failure = new Array<number>(sequence.length).fill(0);
+
+  for (let i = 1; i < sequence.length; i++) {
+    let k = failure[i - 1];
+    while (k > 0 && sequence[i] !== sequence[k]) k = failure[k - 1];
+    if (sequence[i] === sequence[k]) k++;
+    failure[i] = k;
+  }
+
+  // Walk candidate lengths from longest to shortest
+  for (let length = failure[sequence.length - 1]; length > 0; length = failure[length - 1]) {
+    if (accept(length)) return length;
+  }
+  return 0;
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_MERGE_PARAMS,
+  fromSearchParams,
+  PresetError,
+  readPreset,
+  toSearchParams,
+  type MergeParams,
+} from '@/lib/presets';
+
+const preset = (params: Record<string, unknown>, version: unknown = 1) => ({ version, name: ' Grid ', params });
+
+describe('readPreset', () => {
+  it('fills settings the preset does not mention with their defaults', () => {
+    const { preset: read, ignored } = readPreset(preset({ alignmentMode: 'grid', spacing: 12, keepMetadata: true }));
+    expect(read).toEqual({
+      version: 1,
+      name: 'Grid',
+      params: { ...DEFAULT_MERGE_PARAMS, alignmentMode: 'grid', spacing: 12, keepMetadata: true },
+    });
+    expect(ignored).toEqual([]);
+  });
+
+  it('rejects presets from a newer version or without a valid one', () => {
+    expect(() => readPreset(preset({}, 2))).toThrow(/version 2/);
+    expect(() => readPreset(preset({}, '1'))).toThrow(PresetError);
+    expect(() => readPreset(preset({}, 0))).toThrow(PresetError);
+  });
+
+  it('rejects JSON that is not a preset', () => {
+    expect(() => readPreset([])).toThrow(PresetError);
+    expect(() => readPreset({ version: 1, name: ' ', params: {} })).toThrow('The preset has no name');
+    expect(() => readPreset({ version: 1, name: 'No settings' })).toThrow('The preset has no settings');
+  });
+
+  it('skips out-of-range and invalid values, keeping their defaults', () => {
+    const { preset: read, ignored } = readPreset(
+      preset({ quality: 101, spacing: -1, gridRows: 2.5, background: 'red', watermarkColor: 'transparent', padding: 8 })
+    );
+    expect(ignored).toEqual(['gridRows', 'spacing', 'background', 'watermarkColor', 'quality']);
+    expect(read.params).toEqual({ ...DEFAULT_MERGE_PARAMS, padding: 8 });
+  });
+
+  it('ignores keys that are not settings', () => {
+    const { preset: read, ignored } = readPreset(preset({ spacing: 4, images: ['a.png'], theme: 'dark' }));
+    expect(read.params).toEqual({ ...DEFAULT_MERGE_PARAMS, spacing: 4 });
+    expect(read.params).not.toHaveProperty('images');
+    expect(ignored).toEqual([]);
+  });
+});
+
+describe('share links', () => {
+  it('round-trips settings through the query string', () => {
+    const params: MergeParams = {
+      ...DEFAULT_MERGE_PARAMS,
+      alignmentMode: 'masonry',
+      masonryCols: 4,
+      resizeWidth: 800,
+      background: '#ff000080',
+      captionTemplate: '{name} & {index}',
+      watermarkText: '',
+      format: 'webp',
+      verify: true,
+    };
+    const search = toSearchParams(params);
+    expect(search.get('v')).toBe('1');
+    // Defaults are left out to keep links short
+    expect(search.has('spacing')).toBe(false);
+
+    expect(fromSearchParams(new URLSearchParams(search.toString()))).toEqual({ params, ignored: [] });
+  });
+
+  it('carries no settings without a version', () => {
+    expect(fromSearchParams(new URLSearchParams('spacing=10'))).toBeNull();
+  });
+
+  it('rejects links from a newer version', () => {
+    expect(() => fromSearchParams(new URLSearchParams('v=2&spacing=10'))).toThrow(PresetError);
+  });
+
+  it('ignores unknown keys and lists invalid settings', () => {
+    const read = fromSearchParams(new URLSearchParams('v=1&utm_source=mail&spacing=10&quality=0&format=bmp'));
+    expect(read).toEqual({ params: { ...DEFAULT_MERGE_PARAMS, spacing: 10 }, ignored: ['format', 'quality'] });
+  });
+});
@@ -0,0 +1,316 @@
+import { DEFAULT_CAPTION_OPTIONS, MAX_CAPTION_LENGTH } from '@/lib/captions';
+import {
+  MAX_DIMENSION,
+  type AlignDimension,
+  type AlignmentMode,
+  type CaptionPosition,
+  type CrossAlign,
+  type GridFit,
+  type GridOverflow,
+} from '@/lib/layout';
+import {
+  DEFAULT_OUTPUT_OPTIONS,
+  OUTPUT_FORMATS,
+  type ColorProfile,
+  type OutputFormat,
+  type TiffCompression,
+} from '@/lib/output-format';
+import { DEFAULT_PREPROCESS_OPTIONS } from '@/lib/preprocess';
+import type { PyramidLayout } from '@/lib/pyramid';
+import {
+  DEFAULT_WATERMARK_OPTIONS,
+  MAX_WATERMARK_TEXT_LENGTH,
+  WATERMARK_POSITIONS,
+  type WatermarkKind,
+  type WatermarkPosition,
+  type WatermarkTarget,
+} from '@/lib/watermark';
+
+/**
+ * Every merge setting, keyed by its `/api/merge` form field name. Presets,
+ * share links and merge requests all carry exactly these values; uploads,
+ * per-image edits and batch groups are not settings.
+ */
+export interface MergeParams {
+  alignmentMode: AlignmentMode;
+  gridRows: number;
+  gridCols: number;
+  gridFit: GridFit;
+  gridOverflow: GridOverflow;
+  rowHeight: number;
+  masonryCols: number;
+  resizeWidth: number | null;  // null keeps the original size
+  resizeHeight: number | null;
+  alignDimension: AlignDimension;
+  spacing: number;
+  padding: number;
+  alignX: CrossAlign;
+  alignY: CrossAlign;
+  background: string;  // 'transparent' or a hex colour
+  trimBorders: boolean;
+  trimThreshold: number;
+  stitchOverlap: boolean;
+  captionTemplate: string;
+  captionPosition: CaptionPosition;
+  captionFontSize: number;
+  captionColor: string;
+  watermark: WatermarkKind;
+  watermarkTarget: WatermarkTarget;
+  watermarkText: string;
+  watermarkColor: string;
+  watermarkPosition: WatermarkPosition;
+  watermarkOpacity: number;
+  watermarkScale: number;
+  watermarkTile: boolean;
+  watermarkMargin: number;
+  format: OutputFormat;
+  lossless: boolean;
+  quality: number;
+  compressionLevel: number;
+  tiffCompression: TiffCompression;
+  preserveBitDepth: boolean;
+  colorProfile: ColorProfile;
+  keepMetadata: boolean;
+  pyramid: PyramidLayout;
+  verify: boolean;  // Compare every image with the output after merging
+}
+
+// What each field may hold; the server validates requests against the same rules
+export type ParamRule =
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'int'; min: number; max: number }
+  | { type: 'boolean' }
+  | { type: 'color'; transparent: boolean }
+  | { type: 'text'; maxLength: number };
+
+const CROSS_ALIGNS: readonly CrossAlign[] = ['start', 'center', 'end'];
+
+export const MERGE_PARAM_SCHEMA: { [K in keyof MergeParams]: ParamRule } = {
+  alignmentMode: { type: 'enum', values: ['horizontal', 'vertical', 'grid', 'justified', 'masonry'] },
+  gridRows: { type: 'int', min: 1, max: 1000 },
+  gridCols: { type: 'int', min: 1, max: 1000 },
+  gridFit: { type: 'enum', values: ['manual', 'square', 'fixed-cols', 'fixed-rows'] },
+  gridOverflow: { type: 'enum', values: ['grow', 'reject', 'paginate'] },
+  rowHeight: { type: 'int', min: 1, max: MAX_DIMENSION },
+  masonryCols: { type: 'int', min: 1, max: 1000 },
+  resizeWidth: { type: 'int', min: 1, max: MAX_DIMENSION },
+  resizeHeight: { type: 'int', min: 1, max: MAX_DIMENSION },
+  alignDimension: { type: 'enum', values: ['none', 'width', 'height'] },
+  spacing: { type: 'int', min: 0, max: MAX_DIMENSION },
+  padding: { type: 'int', min: 0, max: MAX_DIMENSION },
+  alignX: { type: 'enum', values: CROSS_ALIGNS },
+  alignY: { type: 'enum', values: CROSS_ALIGNS },
+  background: { type: 'color', transparent: true },
+  trimBorders: { type: 'boolean' },
+  trimThreshold: { type: 'int', min: 0, max: 255 },
+  stitchOverlap: { type: 'boolean' },
+  captionTemplate: { type: 'text', maxLength: MAX_CAPTION_LENGTH },
+  captionPosition: { type: 'enum', values: ['above', 'below'] },
+  captionFontSize: { type: 'int', min: 4, max: 500 },
+  captionColor: { type: 'color', transparent: true },
+  watermark: { type: 'enum', values: ['none', 'image', 'text'] },
+  watermarkTarget: { type: 'enum', values: ['merged', 'tile'] },
+  watermarkText: { type: 'text', maxLength: MAX_WATERMARK_TEXT_LENGTH },
+  watermarkColor: { type: 'color', transparent: false },
+  watermarkPosition: { type: 'enum', values: WATERMARK_POSITIONS },
+  watermarkOpacity: { type: 'int', min: 0, max: 100 },
+  watermarkScale: { type: 'int', min: 1, max: 100 },
+  watermarkTile: { type: 'boolean' },
+  watermarkMargin: { type: 'int', min: 0, max: MAX_DIMENSION },
+  format: { type: 'enum', values: Object.keys(OUTPUT_FORMATS) },
+  lossless: { type: 'boolean' },
+  quality: { type: 'int', min: 1, max: 100 },
+  compressionLevel: { type: 'int', min: 0, max: 9 },
+  tiffCompression: { type: 'enum', values: ['deflate', 'lzw'] },
+  preserveBitDepth: { type: 'boolean' },
+  colorProfile: { type: 'enum', values: ['srgb', 'p3', 'input'] },
+  keepMetadata: { type: 'boolean' },
+  pyramid: { type: 'enum', values: ['none', 'dz', 'iiif'] },
+  verify: { type: 'boolean' },
+};
+
+export const DEFAULT_MERGE_PARAMS: MergeParams = {
+  alignmentMode: 'horizontal',
+  gridRows: 2,
+  gridCols: 2,
+  gridFit: 'manual',
+  gridOverflow: 'grow',
+  rowHeight: 400,
+  masonryCols: 3,
+  resizeWidth: null,
+  resizeHeight: null,
+  alignDimension: 'none',
+  spacing: 0,
+  padding: 0,
+  alignX: 'start',
+  alignY: 'start',
+  background: 'transparent',
+  ...DEFAULT_PREPROCESS_OPTIONS,
+  captionTemplate: DEFAULT_CAPTION_OPTIONS.template,
+  captionPosition: DEFAULT_CAPTION_OPTIONS.position,
+  captionFontSize: DEFAULT_CAPTION_OPTIONS.fontSize,
+  captionColor: DEFAULT_CAPTION_OPTIONS.color,
+  watermark: DEFAULT_WATERMARK_OPTIONS.kind,
+  watermarkTarget: DEFAULT_WATERMARK_OPTIONS.target,
+  watermarkText: DEFAULT_WATERMARK_OPTIONS.text,
+  watermarkColor: DEFAULT_WATERMARK_OPTIONS.color,
+  watermarkPosition: DEFAULT_WATERMARK_OPTIONS.position,
+  watermarkOpacity: DEFAULT_WATERMARK_OPTIONS.opacity,
+  watermarkScale: DEFAULT_WATERMARK_OPTIONS.scale,
+  watermarkTile: DEFAULT_WATERMARK_OPTIONS.tile,
+  watermarkMargin: DEFAULT_WATERMARK_OPTIONS.margin,
+  ...DEFAULT_OUTPUT_OPTIONS,
+  verify: false,
+};
+
+const PARAM_NAMES = Object.keys(MERGE_PARAM_SCHEMA) as Array<keyof MergeParams>;
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+/**
+ * Check a form field value against a rule, returning the parsed value or a
+ * description of what was expected. Callers decide what absent fields mean.
+ */
+export function parseValue(rule: ParamRule, value: string): { value: string | number | boolean } | { error: string } {
+  switch (rule.type) {
+    case 'enum':
+      return rule.values.includes(value) ? { value } : { error: `expected one of ${rule.values.join(', ')}` };
+    case 'int': {
+      const number = Number(value);
+      return /^-?\d+$/.test(value) && number >= rule.min && number <= rule.max
+        ? { value: number }
+        : { error: `expected a whole number from ${rule.min} to ${rule.max}` };
+    }
+    case 'boolean':
+      return value === 'true' || value === 'false' ? { value: value === 'true' } : { error: 'expected true or false' };
+    case 'color':
+      return (rule.transparent && value === 'transparent') || HEX_COLOR.test(value)
+        ? { value }
+        : { error: rule.transparent ? 'expected transparent or a hex colour' : 'expected a hex colour' };
+    case 'text':
+      return value.length <= rule.maxLength ? { value } : { error: `expected at most ${rule.maxLength} characters` };
+  }
+}
+
+/** Check a form field value against the rule of merge setting `name`. */
+export function parseParam<K extends keyof MergeParams>(
+  name: K,
+  value: string
+): { value: MergeParams[K] } | { error: string } {
+  // The schema's rule for `name` only accepts values of its type
+  return parseValue(MERGE_PARAM_SCHEMA[name], value) as { value: MergeParams[K] } | { error: string };
+}
+
+/** Form fields for `params`, one per setting; unset optional sizes are left out. */
+export function toFormFields(params: MergeParams): Array<[string, string]> {
+  return PARAM_NAMES.flatMap((name) => {
+    const value = params[name];
+    return value === null ? [] : [[name, String(value)] as [string, string]];
+  });
+}
+
+// Assign one setting, keeping its value tied to its name's type
+function setParam<K extends keyof MergeParams>(params: MergeParams, name: K, value: MergeParams[K]): void {
+  params[name] = value;
+}
+
+/**
+ * Read settings from string fields, such as a URL query, starting from the
+ * defaults. Fields that are missing keep their default; invalid ones are
+ * skipped and listed in `ignored`.
+ */
+export function fromFormFields(get: (name: string) => string | null | undefined): {
+  params: MergeParams;
+  ignored: string[];
+} {
+  const params: MergeParams = { ...DEFAULT_MERGE_PARAMS };
+  const ignored: string[] = [];
+
+  for (const name of PARAM_NAMES) {
+    const value = get(name);
+    if (value === null || value === undefined) continue;
+    // Texts may be deliberately empty, everything else falls back to its default
+    if (value === '' && MERGE_PARAM_SCHEMA[name].type !== 'text') continue;
+
+    const parsed = parseParam(name, value);
+    if ('value' in parsed) {
+      setParam(params, name, parsed.value);
+    } else {
+      ignored.push(name);
+    }
+  }
+  return { params, ignored };
+}
+
+export const PRESET_VERSION = 1;
+
+// A named set of merge settings, as saved in the browser and exported as JSON
+export interface MergePreset {
+  version: typeof PRESET_VERSION;
+  name: string;
+  params: MergeParams;
+}
+
+export class PresetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PresetError';
+  }
+}
+
+/**
+ * Read a preset from parsed JSON. Missing settings take their defaults so
+ * presets saved before a setting existed still load; presets from a newer
+ * version, or that are not presets at all, are rejected.
+ */
+export function readPreset(json: unknown): { preset: MergePreset; ignored: string[] } {
+  if (typeof json !== 'object' || json === null) {
+    throw new PresetError('A preset must be a JSON object');
+  }
+  const { version, name, params } = json as Record<string, unknown>;
+
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new PresetError('The preset has no valid version number');
+  }
+  if (version > PRESET_VERSION) {
+    throw new PresetError(`The preset is version ${version}; this page only reads up to version ${PRESET_VERSION}`);
+  }
+  if (typeof name !== 'string' || name.trim() === '') {
+    throw new PresetError('The preset has no name');
+  }
+  if (typeof params !== 'object' || params === null) {
+    throw new PresetError('The preset has no settings');
+  }
+
+  // Typed JSON values are checked with the same rules as their string forms
+  const values = params as Record<string, unknown>;
+  const result = fromFormFields((field) => {
+    const value = values[field];
+    return value === undefined || value === null ? undefined : String(value);
+  });
+  return { preset: { version: PRESET_VERSION, name: name.trim(), params: result.params }, ignored: result.ignored };
+}
+
+/** Query string holding the settings that differ from the defaults, for share links. */
+export function toSearchParams(params: MergeParams): URLSearchParams {
+  const search = new URLSearchParams({ v: String(PRESET_VERSION) });
+  for (const [name, value] of toFormFields(params)) {
+    if (value !== String(DEFAULT_MERGE_PARAMS[name as keyof MergeParams])) {
+      search.set(name, value);
+    }
+  }
+  return search;
+}
+
+/**
+ * Settings from a share link's query string, or null when the URL carries
+ * none. Links made by a newer version of the page are rejected.
+ */
+export function fromSearchParams(search: URLSearchParams): { params: MergeParams; ignored: string[] } | null {
+  const version = search.get('v');
+  if (version === null) return null;
+  if (!/^\d+$/.test(version) || Number(version) > PRESET_VERSION) {
+    throw new PresetError(`This link uses settings version ${version}; this page only reads up to version ${PRESET_VERSION}`);
+  }
+  return fromFormFields((name) => search.get(name));
+}
@@ -0,0 +1,114 @@
+import type { ZipReader } from '@/lib/zip-reader';
+
+export type PyramidLayout = 'none' | 'dz' | 'iiif';
+
+export const PYRAMID_TILE_SIZE = 256;
+
+/**
+ * A tile pyramid read back from the zip libvips writes. Levels are numbered
+ * by their downscale exponent: level k is the image shrunk by 2^k, and
+ * `maxLevel` is the coarsest level available.
+ */
+export interface Pyramid {
+  layout: Exclude<PyramidLayout, 'none'>;
+  width: number;
+  height: number;
+  tileSize: number;
+  maxLevel: number;
+  tileName: (level: number, col: number, row: number) => string;
+}
+
+/**
+ * Upper bound on the files libvips writes for the pyramid of a `width` ×
+ * `height` image: the tiles of every level down to 1 × 1, plus the
+ * descriptor and libvips' properties file.
+ */
+export function pyramidFileCount(width: number, height: number, tileSize = PYRAMID_TILE_SIZE): number {
+  let count = 2;
+  for (let scale = 1; ; scale *= 2) {
+    const levelWidth = Math.ceil(width / scale);
+    const levelHeight = Math.ceil(height / scale);
+    count += Math.ceil(levelWidth / tileSize) * Math.ceil(levelHeight / tileSize);
+    if (levelWidth === 1 && levelHeight === 1) return count;
+  }
+}
+
+export class PyramidError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PyramidError';
+  }
+}
+
+// Read an attribute from a DZI descriptor
+const xmlAttribute = (xml: string, name: string): string | undefined =>
+  xml.match(new RegExp(`${name}="([^"]*)"`))?.[1];
+
+function readDeepZoom(descriptorName: string, xml: string): Pyramid {
+  const width = parseInt(xmlAttribute(xml, 'Width') ?? '');
+  const height = parseInt(xmlAttribute(xml, 'Height') ?? '');
+  const tileSize = parseInt(xmlAttribute(xml, 'TileSize') ?? '');
+  const format = xmlAttribute(xml, 'Format');
+  if (!width || !height || !tileSize || !format) {
+    throw new PyramidError('Invalid DeepZoom descriptor');
+  }
+
+  // DeepZoom numbers levels upwards from a 1×1 image
+  const deepest = Math.ceil(Math.log2(Math.max(width, height)));
+  const base = descriptorName.replace(/\.dzi$/, '_files');
+
+  return {
+    layout: 'dz',
+    width,
+    height,
+    tileSize,
+    maxLevel: deepest,
+    tileName: (level, col, row) => `${base}/${deepest - level}/${col}_${row}.${format}`,
+  };
+}
+
+function readIiif(infoName: string, json: string): Pyramid {
+  const info = JSON.parse(json);
+  const width: number = info.width;
+  const height: number = info.height;
+  const tileSize: number = info.tiles?.[0]?.width;
+  const scaleFactors: number[] = info.tiles?.[0]?.scaleFactors ?? [];
+  const format: string = info.profile?.[1]?.formats?.[0] ?? 'jpg';
+  if (!width || !height || !tileSize || scaleFactors.length === 0) {
+    throw new PyramidError('Invalid IIIF descriptor');
+  }
+
+  const base = infoName.replace(/\/info\.json$/, '');
+
+  return {
+    layout: 'iiif',
+    width,
+    height,
+    tileSize,
+    maxLevel: Math.log2(Math.max(...scaleFactors)),
+    tileName: (level, col, row) => {
+      // IIIF addresses tiles by their region in full-resolution pixels
+      const scale = 2 ** level;
+      const left = col * tileSize * scale;
+      const top = row * tileSize * scale;
+      const regionWidth = Math.min(tileSize * scale, width - left);
+      const regionHeight = Math.min(tileSize * scale, height - top);
+      const region = regionWidth === width && regionHeight === height
+        ? 'full'
+        : `${left},${top},${regionWidth},${regionHeight}`;
+      return `${base}/${region}/${Math.ceil(regionWidth / scale)},/0/default.${format}`;
+    },
+  };
+}
+
+// Find and parse the pyramid descriptor in the zip libvips wrote
+export async function readPyramid(zip: ZipReader): Promise<Pyramid> {
+  const decoder = new TextDecoder();
+  const descriptor = zip.names.find((name) => name.endsWith('.dzi') || name.endsWith('/info.json'));
+  if (!descriptor) {
+    throw new PyramidError('Archive does not contain a DeepZoom or IIIF descriptor');
+  }
+
+  const text = decoder.decode(await zip.read(descriptor));
+  return descriptor.endsWith('.dzi') ? readDeepZoom(descriptor, text) : readIiif(descriptor, text);
+}
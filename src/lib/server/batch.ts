@@ -0,0 +1,86 @@
+import path from 'path';
+import { mkdir, rename } from 'fs/promises';
+import { pageReaders } from '@/lib/server/decode';
+import { mergeToFiles, type MergeHooks, type MergeInput, type MergeOutput } from '@/lib/server/merge';
+import type { TileVerification } from '@/lib/verify';
+import type { MergeRequest } from '@/lib/server/merge-request';
+
+// Group names become file names, so keep them to portable characters
+const safeFileName = (name: string) => name.replace(/[^\w.-]+/g, '_').replace(/^\.+/, '') || 'group';
+
+// Decode the pages of uploads sharp cannot read into full-resolution PNGs in `workDir`, opening each upload once
+async function decodeInputs(
+  inputs: MergeInput[],
+  workDir: string,
+  { onProgress, signal }: MergeHooks
+): Promise<MergeInput[]> {
+  const openPages = pageReaders();
+  const decoded: MergeInput[] = [];
+  for (let i = 0; i < inputs.length; i++) {
+    const { decode } = inputs[i];
+    if (!decode) {
+      decoded.push(inputs[i]);
+      continue;
+    }
+    signal?.throwIfAborted();
+    onProgress?.({ phase: 'decode', completed: i, total: inputs.length, page: 0, pageCount: 1 });
+    const pages = await openPages({ path: inputs[i].path, filename: decode.filename }, decode.density);
+    const decodedPath = path.join(workDir, `decoded-${i}.png`);
+    await pages.decode(decode.page, decodedPath);
+    decoded.push({ ...inputs[i], decodedPath });
+  }
+  return decoded;
+}
+
+/**
+ * Merge everything a request asks for into files in `workDir`. Uploads only
+ * the server decodes are decoded in full first. A batch request merges each
+ * group on its own, one after another, and names the outputs after their
+ * groups (`<group>.png`, or `<group>-page-N.png` for paginated groups).
+ */
+export async function mergeRequestToFiles(
+  { inputs, options, settings, groups }: MergeRequest,
+  workDir: string,
+  { onProgress, signal }: MergeHooks = {}
+): Promise<MergeOutput> {
+  inputs = await decodeInputs(inputs, workDir, { onProgress, signal });
+  if (!groups) {
+    return mergeToFiles(inputs, options, settings, workDir, { onProgress, signal });
+  }
+
+  const batchDir = path.join(workDir, 'batch');
+  await mkdir(batchDir);
+
+  const outputPaths: string[] = [];
+  const verification: TileVerification[] = [];
+  const usedNames = new Set<string>();
+  for (let g = 0; g < groups.length; g++) {
+    const groupDir = path.join(workDir, `group-${g}`);
+    await mkdir(groupDir);
+    const merged = await mergeToFiles(
+      groups[g].indices.map((i) => inputs[i]),
+      options,
+      settings,
+      groupDir,
+      { signal, onProgress: (progress) => onProgress?.({ ...progress, group: g + 1, groupCount: groups.length }) }
+    );
+
+    // Names that only differed in unsafe characters get a numeric suffix
+    let baseName = safeFileName(groups[g].name);
+    for (let n = 2; usedNames.has(baseName.toLowerCase()); n++) {
+      baseName = `${safeFileName(groups[g].name)}-${n}`;
+    }
+    usedNames.add(baseName.toLowerCase());
+
+    const pagePaths = merged.outputPaths;
+    for (let p = 0; p < pagePaths.length; p++) {
+      const suffix = pagePaths.length > 1 ? `-page-${p + 1}` : '';
+      const outputPath = path.join(batchDir, `${baseName}${suffix}${path.extname(pagePaths[p])}`);
+      await rename(pagePaths[p], outputPath);
+      outputPaths.push(outputPath);
+    }
+
+    merged.verification?.forEach((tile) => verification.push({ ...tile, group: groups[g].name }));
+  }
+  return { outputPaths, ...(settings.verify && { verification }) };
+}
@@ -0,0 +1,40 @@
+import { CAPTION_FONT_FAMILY, type CaptionOptions } from '@/lib/captions';
+import type { Placement } from '@/lib/layout';
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&'"]/g, (char) => `&#${char.charCodeAt(0)};`);
+
+/**
+ * Render the captions whose bands overlap the rows [top, top + height) of
+ * the page as an SVG the size of that strip, or undefined if none do. Text
+ * is centred in its band and clipped to it, matching the canvas renderer.
+ */
+export function captionOverlay(
+  texts: string[],
+  bands: Placement[],
+  options: CaptionOptions,
+  top: number,
+  height: number,
+  width: number
+): Buffer | undefined {
+  const elements: string[] = [];
+
+  bands.forEach((band, i) => {
+    if (!texts[i] || band.top >= top + height || band.top + band.height <= top) return;
+
+    const y = band.top - top;
+    elements.push(
+      `<clipPath id="c${i}"><rect x="${band.left}" y="${y}" width="${band.width}" height="${band.height}"/></clipPath>`,
+      `<text clip-path="url(#c${i})" x="${band.left + band.width / 2}" y="${y + band.height / 2}">${escapeXml(texts[i])}</text>`
+    );
+  });
+  if (elements.length === 0) return undefined;
+
+  return Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+      `<g font-family="${CAPTION_FONT_FAMILY}" font-size="${options.fontSize}" fill="${options.color}" ` +
+      'text-anchor="middle" dominant-baseline="central">' +
+      elements.join('') +
+      '</g></svg>'
+  );
+}
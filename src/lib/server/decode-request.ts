@@ -0,0 +1,63 @@
+import { writeFile } from 'fs/promises';
+import path from 'path';
+import {
+  DECODE_MANIFEST_NAME,
+  decodedBaseName,
+  DEFAULT_DECODE_DENSITY,
+  MAX_DECODE_DENSITY,
+  type DecodedPageInfo,
+} from '@/lib/decode';
+import type { DecodedPage } from '@/lib/server/decode';
+import { MergeApiError } from '@/lib/server/errors';
+import { fieldReader, invalidField } from '@/lib/server/merge-request';
+import type { UploadedFile } from '@/lib/server/multipart';
+import { streamZip } from '@/lib/server/stream';
+
+export interface DecodeRequest {
+  image: UploadedFile;
+  baseName: string;  // Upload name without its extension, used to name the pages
+  density: number;  // DPI for SVG and PDF
+}
+
+/**
+ * Read a decode request: exactly one upload in the `image` field and the
+ * rasterizing density. The upload is not inspected here, since it is
+ * usually in a format only the decoder understands.
+ */
+export function readDecodeRequest(fields: Map<string, string>, uploads: UploadedFile[]): DecodeRequest {
+  const { readInt } = fieldReader(fields);
+  const density = readInt('density', 1, MAX_DECODE_DENSITY, DEFAULT_DECODE_DENSITY);
+
+  const images = uploads.filter((file) => file.field === 'image');
+  if (images.length === 0) {
+    throw new MergeApiError('no_images', 'No image provided');
+  }
+  if (images.length > 1) {
+    throw invalidField('image', 'expected exactly one image');
+  }
+
+  return { image: images[0], baseName: decodedBaseName(images[0].filename), density };
+}
+
+/**
+ * Build the zip download of the previews written by `decodeToPreviews`, in
+ * page order, with a manifest of the pages' full-resolution sizes.
+ */
+export async function decodeResultResponse(
+  baseName: string,
+  pages: DecodedPage[],
+  workDir: string,
+  onClose: () => void
+): Promise<Response> {
+  const manifest: DecodedPageInfo[] = pages.map(({ name, width, height }) => ({ name, width, height }));
+  const manifestPath = path.join(workDir, DECODE_MANIFEST_NAME);
+  await writeFile(manifestPath, JSON.stringify(manifest));
+
+  return new Response(await streamZip([...pages, { name: DECODE_MANIFEST_NAME, path: manifestPath }], onClose), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="${baseName}-pages.zip"`,
+    },
+  });
+}
@@ -0,0 +1,109 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { openPages } from '@/lib/server/decode';
+import { MergeApiError } from '@/lib/server/errors';
+import { MERGE_LIMITS } from '@/lib/server/limits';
+
+let dir: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'decode-test-'));
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+const solid = (width: number, height: number, background: string) =>
+  sharp({ create: { width, height, channels: 3, background } });
+
+// A stand-in for a camera RAW file: a small TIFF container followed by `parts`
+async function fakeRaw(name: string, parts: Buffer[]): Promise<{ path: string; filename: string }> {
+  // Uncompressed, so the container holds no JPEG data of its own
+  const container = await solid(8, 8, 'white').tiff({ compression: 'none' }).toBuffer();
+  const filePath = path.join(dir, name);
+  await writeFile(filePath, Buffer.concat([container, ...parts]));
+  return { path: filePath, filename: name };
+}
+
+// Size and top-left colour of a decoded page
+async function decodePage(file: { path: string; filename: string }, page = 1) {
+  const outputPath = path.join(dir, `${file.filename}-${page}.png`);
+  await (await openPages(file, 72)).decode(page, outputPath);
+  const { data, info } = await sharp(outputPath).raw().toBuffer({ resolveWithObject: true });
+  return { width: info.width, height: info.height, pixel: [...data.subarray(0, 3)] };
+}
+
+describe('openPages on camera RAW files', () => {
+  it('decodes the largest embedded preview', async () => {
+    const thumbnail = await solid(16, 12, 'green').jpeg().toBuffer();
+    const preview = await solid(60, 40, 'yellow').jpeg().toBuffer();
+    const file = await fakeRaw('largest.nef', [thumbnail, Buffer.from([1, 2, 3]), preview]);
+
+    const pages = await openPages(file, 72);
+    expect(pages.pageCount).toBe(1);
+    expect(await pages.pageSize(1, MERGE_LIMITS)).toEqual({ width: 60, height: 40 });
+    expect(await decodePage(file)).toMatchObject({ width: 60, height: 40 });
+  });
+
+  it('falls back to a smaller preview when the largest is cut off', async () => {
+    const thumbnail = await solid(16, 12, 'green').jpeg().toBuffer();
+    const preview = await solid(60, 40, 'yellow').jpeg().toBuffer();
+    const file = await fakeRaw('truncated.nef', [thumbnail, preview.subarray(0, preview.length - 40)]);
+
+    const page = await decodePage(file);
+    expect(page).toMatchObject({ width: 16, height: 12 });
+    expect(page.pixel[1]).toBeGreaterThan(100);
+  });
+
+  it('skips start markers that begin no image', async () => {
+    const preview = await solid(30, 20, 'red').jpeg().toBuffer();
+    const file = await fakeRaw('stray.nef', [preview, Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0, 0x10, 9, 9])]);
+
+    expect(await decodePage(file)).toMatchObject({ width: 30, height: 20 });
+  });
+
+  it('rejects files with a start marker but no end of image', async () => {
+    const preview = await solid(30, 20, 'red').jpeg().toBuffer();
+    // Without its end-of-image marker the preview's length cannot be known
+    const file = await fakeRaw('noend.nef', [preview.subarray(0, preview.length - 2)]);
+
+    await expect(openPages(file, 72)).rejects.toThrow(MergeApiError);
+  });
+});
+
+describe('openPages on multi-page files', () => {
+  let file: { path: string; filename: string };
+
+  beforeAll(async () => {
+    const first = await solid(30, 20, 'red').png().toBuffer();
+    const second = await solid(30, 20, 'blue').png().toBuffer();
+    file = { path: path.join(dir, 'pages.tif'), filename: 'pages.tif' };
+    await sharp([first, second], { join: { animated: true } }).tiff().toFile(file.path);
+  });
+
+  it('decodes the requested page', async () => {
+    const pages = await openPages(file, 72);
+    expect(pages.pageCount).toBe(2);
+    expect(await pages.pageSize(2, MERGE_LIMITS)).toEqual({ width: 30, height: 20 });
+
+    const [red, green, blue] = (await decodePage(file, 2)).pixel;
+    expect(blue).toBeGreaterThan(200);
+    expect(red + green).toBeLessThan(10);
+  });
+
+  it('rejects pages past the end', async () => {
+    const pages = await openPages(file, 72);
+    await expect(pages.pageSize(3, MERGE_LIMITS)).rejects.toMatchObject({ code: 'invalid_field', status: 400 });
+  });
+
+  it('rejects pages over the input pixel limit', async () => {
+    const pages = await openPages(file, 72);
+    await expect(pages.pageSize(1, { ...MERGE_LIMITS, maxInputPixels: 100 })).rejects.toMatchObject({
+      code: 'input_too_large',
+    });
+  });
+});
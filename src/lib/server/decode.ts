@@ -0,0 +1,396 @@
+import exifr from 'exifr';
+import { createReadStream } from 'fs';
+import { open, type FileHandle } from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+import { DECODE_PREVIEW_SIZE, decodedPageName, fileExtension, RAW_EXTENSIONS } from '@/lib/decode';
+import type { Size } from '@/lib/layout';
+import { MergeApiError } from '@/lib/server/errors';
+import type { MergeLimits } from '@/lib/server/limits';
+import { INPUT_OPTIONS } from '@/lib/server/merge';
+import type { UploadedFile } from '@/lib/server/multipart';
+
+export type InputKind = 'pdf' | 'tiff' | 'heif' | 'svg' | 'raw' | 'image';
+
+// A file to decode: where it is, and the name it was uploaded with
+export type DecodeInput = Pick<UploadedFile, 'path' | 'filename'>;
+
+export interface DecodedPage {
+  name: string;  // File name inside the zip
+  path: string;  // Downscaled preview
+  width: number;  // Upright size of the full-resolution page, which is what gets merged
+  height: number;
+}
+
+// One page of a file only the server decodes, as merged
+export interface PageDecode {
+  filename: string;  // Upload name, whose extension identifies camera RAW files
+  page: number;  // 1-based
+  density: number;  // DPI for SVG and PDF
+}
+
+// ISO base media brands of HEIC and AVIF files
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1', 'avif', 'avis'];
+
+// JPEG start-of-image marker
+const JPEG_START = Buffer.from([0xff, 0xd8, 0xff]);
+
+// RAW files are read in chunks of this size rather than all at once
+const READ_CHUNK_BYTES = 1024 * 1024;
+// Enough of an embedded JPEG to reach its frame header past EXIF and colour profile segments
+const JPEG_HEADER_BYTES = 256 * 1024;
+
+// Operations that turn an image stored with an EXIF orientation upright; sharp mirrors before rotating
+const ORIENTATIONS: Record<number, (image: sharp.Sharp) => sharp.Sharp> = {
+  2: (image) => image.flop(),
+  3: (image) => image.rotate(180),
+  4: (image) => image.flip(),
+  5: (image) => image.rotate(270).flop(),
+  6: (image) => image.rotate(90),
+  7: (image) => image.rotate(90).flop(),
+  8: (image) => image.rotate(270),
+};
+
+// An upload opened for decoding: how many pages it has and how to read each one upright
+interface PageSource {
+  kind: InputKind;
+  pageCount: number;
+  // 0-based page; `size` is the page's upright size
+  page: (index: number) => Promise<{ image: sharp.Sharp; metadata: sharp.Metadata; size: Size }>;
+}
+
+const undecodable = (file: DecodeInput, reason: string) =>
+  new MergeApiError('unsupported_image', `${file.filename} ${reason}`, 415, file.filename);
+
+// Identify an upload by its first bytes, since browsers often send no useful MIME type
+async function detectKind(file: DecodeInput): Promise<InputKind> {
+  // RAW files are mostly TIFF containers, so their extension decides first
+  if (RAW_EXTENSIONS.includes(fileExtension(file.filename))) return 'raw';
+
+  const handle = await open(file.path);
+  const head = Buffer.alloc(4096);
+  try {
+    await handle.read(head, 0, head.length, 0);
+  } finally {
+    await handle.close();
+  }
+
+  const text = head.toString('latin1');
+  if (text.startsWith('%PDF-')) return 'pdf';
+  if (text.startsWith('II*\0') || text.startsWith('MM\0*')) return 'tiff';
+  if (text.slice(4, 8) === 'ftyp' && HEIF_BRANDS.includes(text.slice(8, 12))) return 'heif';
+  if (/<svg[\s>]/.test(text)) return 'svg';
+  return 'image';
+}
+
+// Check a page's upright size against the input pixel limit
+function checkSize(file: DecodeInput, { width, height }: Size, limits: MergeLimits): void {
+  if (!width || !height) {
+    throw undecodable(file, 'has no pixel dimensions');
+  }
+  if (width * height > limits.maxInputPixels) {
+    throw new MergeApiError(
+      'input_too_large',
+      `${file.filename} is ${width} × ${height} pixels, more than the ${limits.maxInputPixels.toLocaleString()} allowed`,
+      413,
+      file.filename
+    );
+  }
+}
+
+// Offsets of every JPEG start-of-image marker in a file
+async function findJpegStarts(filePath: string): Promise<number[]> {
+  const starts: number[] = [];
+  let carry = Buffer.alloc(0);
+  let offset = 0;  // File offset of `carry`'s first byte
+  for await (const chunk of createReadStream(filePath, { highWaterMark: READ_CHUNK_BYTES })) {
+    const data = Buffer.concat([carry, chunk as Buffer]);
+    for (let i = data.indexOf(JPEG_START); i !== -1; i = data.indexOf(JPEG_START, i + 1)) {
+      starts.push(offset + i);
+    }
+    // A marker can straddle two chunks, and is too long to be found twice in what is kept
+    const keep = Math.min(data.length, JPEG_START.length - 1);
+    carry = data.subarray(data.length - keep);
+    offset += data.length - keep;
+  }
+  return starts;
+}
+
+/**
+ * Length of the JPEG starting at `start`, found by walking its segments and
+ * skipping its compressed data, or null when it is cut off or malformed.
+ */
+async function jpegLength(handle: FileHandle, start: number): Promise<number | null> {
+  const buffer = Buffer.alloc(READ_CHUNK_BYTES);
+  let bufferStart = 0;
+  let bufferEnd = 0;
+  // Make `count` bytes from `position` available; false past the end of the file
+  const load = async (position: number, count: number): Promise<boolean> => {
+    if (position >= bufferStart && position + count <= bufferEnd) return true;
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, position);
+    bufferStart = position;
+    bufferEnd = position + bytesRead;
+    return position + count <= bufferEnd;
+  };
+  const at = (position: number) => buffer[position - bufferStart];
+
+  let position = start + 2;  // After the start-of-image marker
+  for (;;) {
+    if (!(await load(position, 2)) || at(position) !== 0xff) return null;
+    const marker = at(position + 1);
+    if (marker === 0xff) {
+      // Fill byte before a marker
+      position += 1;
+      continue;
+    }
+    position += 2;
+    if (marker === 0xd9) return position - start;
+    // Restart markers stand alone; every other marker starts a segment that gives its length
+    if (marker >= 0xd0 && marker <= 0xd7) continue;
+    if (!(await load(position, 2))) return null;
+    const length = buffer.readUInt16BE(position - bufferStart);
+    if (length < 2) return null;
+    position += length;
+    if (marker !== 0xda) continue;
+
+    // Compressed data follows each start of scan, up to the first marker that is not a stuffed zero or a restart
+    for (;;) {
+      if (!(await load(position, 2))) return null;
+      const found = buffer.subarray(0, bufferEnd - bufferStart).indexOf(0xff, position - bufferStart);
+      if (found === -1) {
+        position = bufferEnd;
+        continue;
+      }
+      position = bufferStart + found;
+      if (!(await load(position, 2))) return null;
+      const next = at(position + 1);
+      if (next !== 0x00 && (next < 0xd0 || next > 0xd7)) break;
+      position += 2;
+    }
+  }
+}
+
+/**
+ * The largest JPEG embedded in a camera RAW file; cameras store a preview at
+ * or near full size in them. The file is scanned in chunks and only the
+ * chosen preview is read whole, so large RAW files are never held in memory.
+ */
+async function largestEmbeddedJpeg(file: DecodeInput): Promise<{ jpeg: Buffer; metadata: sharp.Metadata } | null> {
+  const handle = await open(file.path);
+  try {
+    const candidates: Array<{ start: number; metadata: sharp.Metadata; pixels: number }> = [];
+    const header = Buffer.alloc(JPEG_HEADER_BYTES);
+    for (const start of await findJpegStarts(file.path)) {
+      const { bytesRead } = await handle.read(header, 0, header.length, start);
+      // Only the header is parsed, so a cut-off read is enough
+      const metadata = await sharp(header.subarray(0, bytesRead), INPUT_OPTIONS).metadata().catch(() => null);
+      if (metadata?.format !== 'jpeg') continue;
+      candidates.push({ start, metadata, pixels: metadata.width * metadata.height });
+    }
+
+    // Marker bytes can also occur by chance, so fall back to smaller previews when one turns out to be cut off
+    candidates.sort((a, b) => b.pixels - a.pixels);
+    for (const { start, metadata } of candidates) {
+      const length = await jpegLength(handle, start);
+      if (length === null) continue;
+      const jpeg = Buffer.alloc(length);
+      await handle.read(jpeg, 0, length, start);
+      return { jpeg, metadata };
+    }
+    return null;
+  } finally {
+    await handle.close();
+  }
+}
+
+async function openRawPreview(file: DecodeInput): Promise<PageSource> {
+  const preview = await largestEmbeddedJpeg(file);
+  if (!preview) {
+    throw undecodable(file, 'is a camera RAW file without an embedded preview; export it as JPEG or TIFF first');
+  }
+
+  // Previews usually leave the orientation to the RAW file's own EXIF
+  const orientation = preview.metadata.orientation
+    ? undefined
+    : await exifr.orientation(file.path).catch(() => undefined);
+  // Already upright when the preview has its own orientation
+  const { width, height } = preview.metadata.autoOrient;
+  const size = (orientation ?? 1) >= 5 ? { width: height, height: width } : { width, height };
+
+  return {
+    kind: 'raw',
+    pageCount: 1,
+    page: async () => {
+      const image = sharp(preview.jpeg, INPUT_OPTIONS);
+      return {
+        image: preview.metadata.orientation ? image.autoOrient() : ORIENTATIONS[orientation ?? 1]?.(image) ?? image,
+        metadata: preview.metadata,
+        size,
+      };
+    },
+  };
+}
+
+// Open an upload the browser cannot read; `density` only affects vector formats
+async function openSource(file: DecodeInput, density: number): Promise<PageSource> {
+  const kind = await detectKind(file);
+  if (kind === 'raw') {
+    return openRawPreview(file);
+  }
+  if (kind === 'pdf' && !sharp.format.pdf.input.file) {
+    throw undecodable(file, 'is a PDF, and this server\'s image library was built without PDF support');
+  }
+
+  const load = (page?: number) => sharp(file.path, { ...INPUT_OPTIONS, density, page });
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await load().metadata();
+  } catch {
+    throw undecodable(file, 'is not a supported image');
+  }
+
+  // Only TIFF and PDF pages become separate images; other formats' frames are animations or alternates
+  const pageCount = kind === 'tiff' || kind === 'pdf' ? metadata.pages ?? 1 : 1;
+  return {
+    kind,
+    pageCount,
+    page: async (index) => {
+      // Pages of one file can differ in size
+      const pageMetadata = pageCount > 1 ? await load(index).metadata() : metadata;
+      return {
+        image: load(pageCount > 1 ? index : undefined).autoOrient(),
+        metadata: pageMetadata,
+        size: pageMetadata.autoOrient,
+      };
+    },
+  };
+}
+
+// Write an opened page with `write`, turning decoder failures into an error that says why
+async function writePage(
+  file: DecodeInput,
+  source: PageSource,
+  index: number,
+  { image, metadata }: { image: sharp.Sharp; metadata: sharp.Metadata },
+  write: (image: sharp.Sharp, metadata: sharp.Metadata) => Promise<unknown>
+): Promise<void> {
+  try {
+    await write(image, metadata);
+  } catch {
+    if (source.kind === 'raw') {
+      throw undecodable(file, 'is a camera RAW file whose embedded preview could not be decoded');
+    }
+    if (source.kind === 'heif' && metadata.compression === 'hevc') {
+      throw undecodable(file, 'uses HEVC compression, which this server\'s image library was built without');
+    }
+    const where = source.pageCount > 1 ? ` (page ${index + 1})` : '';
+    throw undecodable(file, `could not be decoded${where}; it may be damaged or use an unsupported variant of its format`);
+  }
+}
+
+// Reject pages past the end of a file
+function checkPage(file: DecodeInput, source: PageSource, page: number): void {
+  if (page > source.pageCount) {
+    throw new MergeApiError(
+      'invalid_field',
+      `${file.filename} has ${source.pageCount} page${source.pageCount === 1 ? '' : 's'}, so page ${page} cannot be merged`,
+      400,
+      file.filename
+    );
+  }
+}
+
+/**
+ * Decode an upload the browser cannot read into PNG previews in `workDir`,
+ * at most `DECODE_PREVIEW_SIZE` pixels on their longest side: every page of
+ * a multi-page TIFF or PDF, SVG and PDF rasterized at `density` DPI, HEIC
+ * through libheif, and the embedded preview of camera RAW files. Each page
+ * comes with its full-resolution upright size; merges decode the original
+ * again with `openPages`. Formats this server's libvips cannot read are
+ * rejected with the reason.
+ */
+export async function decodeToPreviews(
+  file: UploadedFile,
+  baseName: string,
+  density: number,
+  workDir: string,
+  limits: MergeLimits
+): Promise<DecodedPage[]> {
+  const source = await openSource(file, density);
+  if (source.pageCount > limits.maxFiles) {
+    throw new MergeApiError(
+      'too_many_files',
+      `${file.filename} has ${source.pageCount} pages, more than the ${limits.maxFiles} images a merge accepts`,
+      413,
+      file.filename
+    );
+  }
+
+  const pages: DecodedPage[] = [];
+  for (let index = 0; index < source.pageCount; index++) {
+    const page = await source.page(index);
+    checkSize(file, page.size, limits);
+
+    const outputPath = path.join(workDir, `page-${index}.png`);
+    await writePage(file, source, index, page, (image) =>
+      image
+        .resize(DECODE_PREVIEW_SIZE, DECODE_PREVIEW_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .png()
+        .toFile(outputPath)
+    );
+    pages.push({ name: decodedPageName(baseName, index + 1, source.pageCount), path: outputPath, ...page.size });
+  }
+  return pages;
+}
+
+// A file only the server decodes, opened once to read any number of its pages
+export interface PageReader {
+  pageCount: number;
+  // Upright size of a 1-based page, checked against the input pixel limit
+  pageSize: (page: number, limits: MergeLimits) => Promise<Size>;
+  // Decode a 1-based page at full resolution into a PNG at `outputPath`
+  decode: (page: number, outputPath: string) => Promise<void>;
+}
+
+/**
+ * Open a file only the server decodes for merging its pages. Only headers are
+ * read up front, except for the embedded preview of RAW files. Decoded pages
+ * are lossless PNGs as they are merged: upright, at full resolution, and
+ * keeping their bit depth, colour profile, EXIF and XMP.
+ */
+export async function openPages(file: DecodeInput, density: number): Promise<PageReader> {
+  const source = await openSource(file, density);
+  return {
+    pageCount: source.pageCount,
+    pageSize: async (page, limits) => {
+      checkPage(file, source, page);
+      const { size } = await source.page(page - 1);
+      checkSize(file, size, limits);
+      return size;
+    },
+    decode: async (page, outputPath) => {
+      checkPage(file, source, page);
+      await writePage(file, source, page - 1, await source.page(page - 1), (image, metadata) => {
+        image = image.keepIccProfile().keepExif().keepXmp();
+        if (metadata.depth === 'ushort') {
+          image = image.toColourspace('rgb16');
+        }
+        return image.png().toFile(outputPath);
+      });
+    },
+  };
+}
+
+/**
+ * `openPages` for reading pages of several files, opening each file only once
+ * per density however many of its pages are read.
+ */
+export function pageReaders(): (file: DecodeInput, density: number) => Promise<PageReader> {
+  const readers = new Map<string, Promise<PageReader>>();
+  return (file, density) => {
+    const key = `${file.path}@${density}`;
+    if (!readers.has(key)) readers.set(key, openPages(file, density));
+    return readers.get(key)!;
+  };
+}
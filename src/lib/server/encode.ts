@@ -0,0 +1,57 @@
+import sharp from 'sharp';
+import { isLossless, OUTPUT_FORMATS, type OutputOptions } from '@/lib/output-format';
+import { PYRAMID_TILE_SIZE } from '@/lib/pyramid';
+
+export class OutputFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OutputFormatError';
+  }
+}
+
+// Apply the sharp encoder matching the requested output settings
+export function encodeOutput(image: sharp.Sharp, output: OutputOptions): sharp.Sharp {
+  if (output.pyramid === 'none') {
+    return encodeImage(image, output);
+  }
+
+  // libvips can only write pyramid tiles as JPEG, PNG or WebP
+  const tileOutput = ['jpeg', 'png', 'webp'].includes(output.format)
+    ? output
+    : { ...output, format: 'png' as const };
+  return encodeImage(image, tileOutput).tile({
+    size: PYRAMID_TILE_SIZE,
+    layout: output.pyramid,
+    container: 'zip',
+  });
+}
+
+function encodeImage(image: sharp.Sharp, output: OutputOptions): sharp.Sharp {
+  const lossless = isLossless(output);
+
+  switch (output.format) {
+    case 'png':
+      return image.png({ compressionLevel: output.compressionLevel });
+    case 'webp':
+      return lossless
+        ? image.webp({ lossless: true, effort: 4 })
+        : image.webp({ quality: output.quality });
+    case 'avif':
+      return lossless
+        ? image.avif({ lossless: true })
+        : image.avif({ quality: output.quality });
+    case 'tiff':
+      return image.tiff({ compression: output.tiffCompression, predictor: 'horizontal' });
+    case 'jxl':
+      // The prebuilt sharp binaries ship without libjxl
+      if (!sharp.format.jxl.output.buffer) {
+        throw new OutputFormatError(`${OUTPUT_FORMATS.jxl.label} output is not supported by this server`);
+      }
+      return lossless
+        ? image.jxl({ lossless: true })
+        : image.jxl({ quality: output.quality });
+    case 'jpeg':
+      // JPEG has no alpha channel, so transparent areas become white
+      return image.flatten({ background: '#ffffff' }).jpeg({ quality: output.quality, mozjpeg: true });
+  }
+}
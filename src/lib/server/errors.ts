@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { LayoutError } from '@/lib/layout';
+import type { MergeErrorBody, MergeErrorCode } from '@/lib/merge-errors';
+import { OutputFormatError } from '@/lib/server/encode';
+
+export class MergeApiError extends Error {
+  constructor(
+    readonly code: MergeErrorCode,
+    message: string,
+    readonly status = 400,
+    readonly field?: string
+  ) {
+    super(message);
+    this.name = 'MergeApiError';
+  }
+}
+
+/**
+ * Map any error to the JSON body and status the API responds with.
+ * Unexpected errors are logged here and reported without internals.
+ */
+export function toErrorBody(error: unknown): { body: MergeErrorBody; status: number } {
+  if (error instanceof MergeApiError) {
+    return {
+      body: { code: error.code, error: error.message, ...(error.field && { field: error.field }) },
+      status: error.status,
+    };
+  }
+  if (error instanceof LayoutError) {
+    return { body: { code: 'invalid_layout', error: error.message }, status: 400 };
+  }
+  if (error instanceof OutputFormatError) {
+    return { body: { code: 'unsupported_output', error: error.message }, status: 400 };
+  }
+
+  console.error('Error merging images:', error);
+  return { body: { code: 'internal', error: 'Failed to merge images' }, status: 500 };
+}
+
+export function errorResponse(error: unknown): NextResponse<MergeErrorBody> {
+  const { body, status } = toErrorBody(error);
+  return NextResponse.json(body, { status });
+}
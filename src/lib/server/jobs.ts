@@ -0,0 +1,128 @@
+import { randomUUID } from 'crypto';
+import { rm } from 'fs/promises';
+import { isFinished, type JobState, type JobStatus, type MergeProgress } from '@/lib/merge-job';
+import type { MergeErrorBody } from '@/lib/merge-errors';
+import { MergeApiError, toErrorBody } from '@/lib/server/errors';
+import { mergeRequestToFiles } from '@/lib/server/batch';
+import type { MergeRequest } from '@/lib/server/merge-request';
+import { buildVerificationReport, type VerificationReport } from '@/lib/verify';
+
+// Finished jobs and their files are kept this long for the result to be downloaded
+const JOB_TTL_MS = 15 * 60 * 1000;
+
+export interface MergeJob {
+  id: string;
+  status: JobStatus;
+  progress: MergeProgress | null;
+  error?: MergeErrorBody;
+  request: MergeRequest;
+  workDir: string;
+  outputPaths: string[];
+  verification?: VerificationReport;  // Set once a verified merge is done
+  controller: AbortController;
+  listeners: Set<(state: JobState) => void>;
+}
+
+interface JobStore {
+  jobs: Map<string, MergeJob>;
+  queue: Promise<void>;  // Jobs run one at a time, chained in submission order
+}
+
+// Kept on globalThis so every route, and dev hot reloads, share one queue
+const globalForJobs = globalThis as typeof globalThis & { mergeJobs?: JobStore };
+const store: JobStore = globalForJobs.mergeJobs ??= { jobs: new Map(), queue: Promise.resolve() };
+
+export function jobState(job: MergeJob): JobState {
+  return { id: job.id, status: job.status, progress: job.progress, error: job.error };
+}
+
+function update(job: MergeJob, changes: Partial<Pick<MergeJob, 'status' | 'progress' | 'error'>>): void {
+  Object.assign(job, changes);
+  const state = jobState(job);
+  job.listeners.forEach((listener) => listener(state));
+}
+
+// Drop the job once its result has had time to be collected
+function expire(job: MergeJob): void {
+  const removeFiles = () => {
+    rm(job.workDir, { recursive: true, force: true }).catch(() => {});
+  };
+  // Only a successful merge has files worth keeping around
+  if (job.status !== 'done') removeFiles();
+
+  setTimeout(() => {
+    store.jobs.delete(job.id);
+    removeFiles();
+  }, JOB_TTL_MS).unref();
+}
+
+async function run(job: MergeJob): Promise<void> {
+  if (job.status === 'cancelled') return;
+  update(job, { status: 'running' });
+
+  try {
+    const { outputPaths, verification } = await mergeRequestToFiles(job.request, job.workDir, {
+      signal: job.controller.signal,
+      onProgress: (progress) => update(job, { progress }),
+    });
+    job.outputPaths = outputPaths;
+    job.verification = verification && buildVerificationReport(verification);
+    update(job, {
+      status: 'done',
+      progress: job.progress && { ...job.progress, completed: job.progress.total },
+    });
+  } catch (error) {
+    if (job.controller.signal.aborted) {
+      update(job, { status: 'cancelled' });
+    } else {
+      update(job, { status: 'failed', error: toErrorBody(error).body });
+    }
+  } finally {
+    expire(job);
+  }
+}
+
+/**
+ * Queue a merge of already uploaded files. The job owns `workDir` from here
+ * on and removes it when the job expires.
+ */
+export function createJob(request: MergeRequest, workDir: string): MergeJob {
+  const job: MergeJob = {
+    id: randomUUID(),
+    status: 'queued',
+    progress: null,
+    request,
+    workDir,
+    outputPaths: [],
+    controller: new AbortController(),
+    listeners: new Set(),
+  };
+  store.jobs.set(job.id, job);
+  store.queue = store.queue.then(() => run(job));
+  return job;
+}
+
+// Look up a job, failing with a 404 error if it does not exist or has expired
+export function getJob(id: string): MergeJob {
+  const job = store.jobs.get(id);
+  if (!job) {
+    throw new MergeApiError('job_not_found', 'Merge job not found', 404);
+  }
+  return job;
+}
+
+// Stop a job; a queued job is dropped, a running one stops at its next step
+export function cancelJob(job: MergeJob): void {
+  if (isFinished(job.status)) return;
+  job.controller.abort();
+  if (job.status === 'queued') {
+    update(job, { status: 'cancelled' });
+    expire(job);
+  }
+}
+
+// Call `listener` with every state change until the returned function is called
+export function subscribe(job: MergeJob, listener: (state: JobState) => void): () => void {
+  job.listeners.add(listener);
+  return () => job.listeners.delete(listener);
+}
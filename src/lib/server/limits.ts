@@ -0,0 +1,26 @@
+// Read a positive integer from the environment, falling back to `fallback`
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] ?? '');
+  return Number.isSafeInteger(value) && value > 0 ? value : fallback;
+}
+
+export interface MergeLimits {
+  maxFiles: number;
+  maxFileBytes: number;
+  maxRequestBytes: number;  // All uploaded files together
+  maxInputPixels: number;  // Per decoded image; guards against decompression bombs
+  maxOutputPixels: number;  // All output pages together
+}
+
+/**
+ * Upload and size caps for the merge API, overridable through MERGE_MAX_FILES,
+ * MERGE_MAX_FILE_BYTES, MERGE_MAX_REQUEST_BYTES, MERGE_MAX_INPUT_PIXELS and
+ * MERGE_MAX_OUTPUT_PIXELS.
+ */
+export const MERGE_LIMITS: MergeLimits = {
+  maxFiles: envInt('MERGE_MAX_FILES', 500),
+  maxFileBytes: envInt('MERGE_MAX_FILE_BYTES', 512 * 1024 * 1024),
+  maxRequestBytes: envInt('MERGE_MAX_REQUEST_BYTES', 4 * 1024 * 1024 * 1024),
+  maxInputPixels: envInt('MERGE_MAX_INPUT_PIXELS', 1024 * 1024 * 1024),
+  maxOutputPixels: envInt('MERGE_MAX_OUTPUT_PIXELS', 4 * 1024 * 1024 * 1024),
+};
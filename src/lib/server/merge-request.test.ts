@@ -0,0 +1,167 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { MERGE_LIMITS } from '@/lib/server/limits';
+import { fieldReader, readMergeRequest } from '@/lib/server/merge-request';
+import type { UploadedFile } from '@/lib/server/multipart';
+
+let dir: string;
+let wide: string;  // 40 × 20
+let tall: string;  // 20 × 30
+let pages: string;  // Two pages of 30 × 10
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'merge-request-test-'));
+  const solid = (width: number, height: number) =>
+    sharp({ create: { width, height, channels: 3, background: 'gray' } }).png();
+  wide = path.join(dir, 'wide.png');
+  tall = path.join(dir, 'tall.png');
+  pages = path.join(dir, 'pages.tif');
+  await solid(40, 20).toFile(wide);
+  await solid(20, 30).toFile(tall);
+  const page = await solid(30, 10).toBuffer();
+  await sharp([page, page], { join: { animated: true } }).tiff().toFile(pages);
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+const upload = (field: string, filePath: string, filename = path.basename(filePath)): UploadedFile => ({
+  field,
+  filename,
+  mimeType: filename.endsWith('.tif') ? 'image/tiff' : 'image/png',
+  path: filePath,
+});
+
+const read = (fields: Record<string, string>, uploads: UploadedFile[], limits = MERGE_LIMITS) =>
+  readMergeRequest(new Map(Object.entries(fields)), uploads, limits);
+
+describe('fieldReader', () => {
+  const reader = (fields: Record<string, string>) => fieldReader(new Map(Object.entries(fields)));
+
+  it('falls back to defaults for absent and empty fields', () => {
+    const { readInt, readParam, readText } = reader({ spacing: '', caption: '' });
+    expect(readInt('count', 1, 10, 3)).toBe(3);
+    expect(readParam('spacing')).toBe(0);
+    // Empty texts are kept
+    expect(readText('caption', 10, 'fallback')).toBe('');
+  });
+
+  it('rejects values outside their rule with the field name', () => {
+    const { readInt, readEnum, readParam } = reader({ count: '11', mode: 'diagonal', quality: '0' });
+    expect(() => readInt('count', 1, 10, 3)).toThrow(
+      expect.objectContaining({ code: 'invalid_field', status: 400, field: 'count' })
+    );
+    expect(() => readEnum('mode', ['a', 'b'], 'a')).toThrow('Invalid mode: expected one of a, b');
+    expect(() => readParam('quality')).toThrow(expect.objectContaining({ field: 'quality' }));
+  });
+
+  it('reads edits and checks crops against the image size', () => {
+    const { readEdit } = reader({
+      'edit-0': JSON.stringify({ rotate: 90, crop: { left: 2, top: 2, width: 10, height: 5 } }),
+      'edit-1': JSON.stringify({ crop: { left: 35, top: 0, width: 10, height: 5 } }),
+      'edit-2': '{',
+      'edit-3': JSON.stringify({ rotate: 45 }),
+    });
+    const size = { width: 40, height: 20 };
+    expect(readEdit('edit-0', size)).toEqual({
+      crop: { left: 2, top: 2, width: 10, height: 5 },
+      rotate: 90,
+      flipH: false,
+      flipV: false,
+    });
+    expect(() => readEdit('edit-1', size)).toThrow(/within 40 × 20/);
+    expect(() => readEdit('edit-2', size)).toThrow('Invalid edit-2: expected JSON');
+    expect(() => readEdit('edit-3', size)).toThrow(/rotate must be one of/);
+    expect(readEdit('edit-4', size)).toEqual({ rotate: 0, flipH: false, flipV: false });
+  });
+});
+
+describe('readMergeRequest', () => {
+  it('orders the queue by the number in its field names', async () => {
+    const request = await read(
+      { 'edit-10': JSON.stringify({ rotate: 90 }) },
+      [upload('image-10', wide), upload('image-2', tall)]
+    );
+    expect(request.inputs.map((input) => [input.name, input.index, input.edit.rotate])).toEqual([
+      ['tall.png', 1, 0],
+      ['wide.png', 2, 90],
+    ]);
+    expect(request.groups).toBeUndefined();
+  });
+
+  it('reads pages of a document uploaded once', async () => {
+    const request = await read(
+      { 'pageSource-0': '0', 'page-0': '2', 'pageSource-1': '0', 'page-1': '1' },
+      [upload('source-0', pages)]
+    );
+    expect(request.inputs.map((input) => [input.name, input.path, input.decode?.page])).toEqual([
+      ['pages-page-2.png', pages, 2],
+      ['pages-page-1.png', pages, 1],
+    ]);
+  });
+
+  it('rejects queues it cannot read', async () => {
+    await expect(read({}, [])).rejects.toMatchObject({ code: 'no_images', status: 400 });
+    await expect(read({ 'pageSource-0': '1' }, [upload('source-0', pages)])).rejects.toMatchObject({
+      code: 'invalid_field',
+      field: 'pageSource-0',
+    });
+    await expect(read({}, [upload('image-first', wide)])).rejects.toMatchObject({
+      code: 'invalid_field',
+      field: 'image-first',
+    });
+    await expect(read({ 'pageSource-0': '0', 'page-0': '3' }, [upload('source-0', pages)])).rejects.toMatchObject({
+      code: 'invalid_field',
+    });
+  });
+
+  it('limits the number of images, counting every page and not the watermark', async () => {
+    const limits = { ...MERGE_LIMITS, maxFiles: 2 };
+    const watermark = upload('watermarkImage', tall);
+    await expect(
+      read({ watermark: 'image' }, [upload('image-0', wide), upload('image-1', wide), watermark], limits)
+    ).resolves.toBeDefined();
+    await expect(
+      read({ 'pageSource-1': '0', 'pageSource-2': '0' }, [upload('image-0', wide), upload('source-0', pages)], limits)
+    ).rejects.toMatchObject({ code: 'too_many_files', status: 413 });
+  });
+
+  it('refuses results over the output pixel limit', async () => {
+    const limits = { ...MERGE_LIMITS, maxOutputPixels: 40 * 20 + 20 * 30 };
+    await expect(read({}, [upload('image-0', wide), upload('image-1', tall)], limits)).rejects.toMatchObject({
+      code: 'output_too_large',
+      status: 413,
+    });
+  });
+
+  it('groups batch merges by name, in order of first appearance', async () => {
+    const request = await read(
+      { 'group-0': 'b', 'group-1': 'a', 'group-2': 'b' },
+      [upload('image-0', wide), upload('image-1', tall), upload('image-2', wide)]
+    );
+    expect(request.groups).toEqual([
+      { name: 'b', indices: [0, 2] },
+      { name: 'a', indices: [1] },
+    ]);
+
+    await expect(
+      read({ 'group-0': 'b', 'group-1': ' ' }, [upload('image-0', wide), upload('image-1', tall)])
+    ).rejects.toMatchObject({ code: 'invalid_field', field: 'group-1' });
+  });
+
+  it('checks settings that depend on each other', async () => {
+    const images = [upload('image-0', wide)];
+    await expect(read({ watermark: 'image' }, images)).rejects.toMatchObject({ field: 'watermarkImage' });
+    await expect(read({ watermark: 'text', watermarkText: ' ' }, images)).rejects.toMatchObject({
+      field: 'watermarkText',
+    });
+    await expect(read({ alignmentMode: 'grid', stitchOverlap: 'true' }, images)).rejects.toMatchObject({
+      field: 'stitchOverlap',
+    });
+    await expect(read({ verify: 'true', pyramid: 'dz' }, images)).rejects.toMatchObject({ field: 'verify' });
+  });
+});
@@ -0,0 +1,432 @@
+import path from 'path';
+import { stat } from 'fs/promises';
+import sharp from 'sharp';
+import { MAX_GROUP_NAME_LENGTH } from '@/lib/batch';
+import { captionBandHeight, type CaptionOptions } from '@/lib/captions';
+import {
+  decodedBaseName,
+  decodedPageName,
+  DEFAULT_DECODE_DENSITY,
+  MAX_DECODE_DENSITY,
+  needsServerDecode,
+} from '@/lib/decode';
+import {
+  editedSize,
+  isValidCrop,
+  IDENTITY_EDIT,
+  ROTATIONS,
+  type ImageEdit,
+} from '@/lib/image-edit';
+import { computeLayout, paginate, type LayoutOptions, type Size } from '@/lib/layout';
+import { OUTPUT_FORMATS, type OutputOptions } from '@/lib/output-format';
+import { pyramidFileCount } from '@/lib/pyramid';
+import {
+  DEFAULT_MERGE_PARAMS,
+  MERGE_PARAM_SCHEMA,
+  parseValue,
+  type MergeParams,
+  type ParamRule,
+} from '@/lib/presets';
+import type { PreprocessOptions } from '@/lib/preprocess';
+import type { WatermarkOptions } from '@/lib/watermark';
+import { pageReaders, type PageDecode } from '@/lib/server/decode';
+import { MergeApiError } from '@/lib/server/errors';
+import type { MergeLimits } from '@/lib/server/limits';
+import type { MergeInput, MergeSettings } from '@/lib/server/merge';
+import type { UploadedFile } from '@/lib/server/multipart';
+import { streamFile, streamZip, ZIP_MAX_ENTRIES } from '@/lib/server/stream';
+
+// Images merged together in a batch merge, named for the output files
+export interface MergeGroup {
+  name: string;
+  indices: number[];  // Positions in `inputs`
+}
+
+export interface MergeRequest {
+  inputs: MergeInput[];
+  options: LayoutOptions;
+  settings: MergeSettings;
+  groups?: MergeGroup[];  // Batch merges only: each group is merged on its own
+}
+
+export const invalidField = (name: string, message: string) =>
+  new MergeApiError('invalid_field', `Invalid ${name}: ${message}`, 400, name);
+
+// Typed accessors for form fields; absent fields take their default, malformed ones are rejected
+export function fieldReader(fields: Map<string, string>) {
+  // Every field is checked against a preset schema rule, so all endpoints report errors alike
+  const read = <T>(name: string, rule: ParamRule, fallback: T): T => {
+    const value = fields.get(name);
+    if (value === undefined || (value === '' && rule.type !== 'text')) return fallback;
+    const parsed = parseValue(rule, value);
+    if ('error' in parsed) {
+      throw invalidField(name, parsed.error);
+    }
+    return parsed.value as T;
+  };
+
+  const readEnum = <T extends string>(name: string, values: readonly T[], fallback: T): T =>
+    read(name, { type: 'enum', values }, fallback);
+
+  const readInt = (name: string, min: number, max: number, fallback: number): number =>
+    read(name, { type: 'int', min, max }, fallback);
+
+  const readText = (name: string, maxLength: number, fallback: string): string =>
+    read(name, { type: 'text', maxLength }, fallback);
+
+  // Merge settings follow the shared preset schema, so requests and presets accept the same values
+  const readParam = <K extends keyof MergeParams>(name: K): MergeParams[K] =>
+    read(name, MERGE_PARAM_SCHEMA[name], DEFAULT_MERGE_PARAMS[name]);
+
+  // Edits of the image uploaded as `image-N` arrive as JSON in `edit-N`
+  const readEdit = (name: string, size: Size): ImageEdit => {
+    const value = fields.get(name);
+    if (value === undefined || value === '') return IDENTITY_EDIT;
+
+    let edit: Partial<ImageEdit>;
+    try {
+      edit = JSON.parse(value);
+    } catch {
+      throw invalidField(name, 'expected JSON');
+    }
+    if (typeof edit !== 'object' || edit === null) {
+      throw invalidField(name, 'expected an object');
+    }
+    if (edit.rotate !== undefined && !ROTATIONS.includes(edit.rotate)) {
+      throw invalidField(name, `rotate must be one of ${ROTATIONS.join(', ')}`);
+    }
+    if ((edit.flipH !== undefined && typeof edit.flipH !== 'boolean') ||
+        (edit.flipV !== undefined && typeof edit.flipV !== 'boolean')) {
+      throw invalidField(name, 'flipH and flipV must be true or false');
+    }
+    if (edit.crop !== undefined && (typeof edit.crop !== 'object' || !isValidCrop(edit.crop, size))) {
+      throw invalidField(name, `crop must be a whole-pixel rectangle within ${size.width} × ${size.height}`);
+    }
+
+    return {
+      ...(edit.crop && {
+        crop: { left: edit.crop.left, top: edit.crop.top, width: edit.crop.width, height: edit.crop.height },
+      }),
+      rotate: edit.rotate ?? 0,
+      flipH: edit.flipH ?? false,
+      flipV: edit.flipV ?? false,
+    };
+  };
+
+  return { readEnum, readInt, readText, readParam, readEdit };
+}
+
+// Check the uploads are decodable images within the pixel limits, and return their oriented sizes
+export async function inspectImages(
+  images: UploadedFile[],
+  limits: MergeLimits
+): Promise<Array<{ width: number; height: number }>> {
+  const sizes = [];
+
+  for (const image of images) {
+    let metadata: sharp.Metadata;
+    try {
+      // Only the header is read, so this is cheap even for huge files
+      metadata = await sharp(image.path, { limitInputPixels: false }).metadata();
+    } catch {
+      throw new MergeApiError('unsupported_image', `${image.filename} is not a supported image`, 415, image.filename);
+    }
+
+    const { width, height } = metadata.autoOrient;
+    if (!width || !height) {
+      throw new MergeApiError('unsupported_image', `${image.filename} has no pixel dimensions`, 415, image.filename);
+    }
+    if (width * height > limits.maxInputPixels) {
+      throw new MergeApiError(
+        'input_too_large',
+        `${image.filename} is ${width} × ${height} pixels, more than the ${limits.maxInputPixels.toLocaleString()} allowed`,
+        413,
+        image.filename
+      );
+    }
+    sizes.push({ width, height });
+  }
+
+  return sizes;
+}
+
+// One image of the queue: an upload of its own, or a page of a document uploaded once for all its pages
+interface QueueEntry {
+  id: string;  // The N of its `image-N` or `pageSource-N` field, which its other fields end in too
+  file: UploadedFile;
+  decode?: PageDecode;
+}
+
+/**
+ * Read the queue, ordered by N: `image-N` uploads, and pages of the
+ * `source-K` uploads named by `pageSource-N`. Pages and files only the server
+ * decodes are read at `page-N` and rasterized at `density-N`.
+ */
+function readQueue(fields: Map<string, string>, uploads: UploadedFile[]): QueueEntry[] {
+  const { readInt } = fieldReader(fields);
+  const byId = new Map<string, { field: string; file: UploadedFile; shared: boolean }>();
+  for (const file of uploads) {
+    if (file.field.startsWith('image-')) {
+      byId.set(file.field.slice('image-'.length), { field: file.field, file, shared: false });
+    }
+  }
+  for (const [field, value] of fields) {
+    if (!field.startsWith('pageSource-')) continue;
+    const file = uploads.find((upload) => upload.field === `source-${value}`);
+    if (!file) {
+      throw invalidField(field, `no document was uploaded as source-${value}`);
+    }
+    const id = field.slice('pageSource-'.length);
+    if (byId.has(id)) {
+      throw invalidField(field, `image-${id} is uploaded as well`);
+    }
+    byId.set(id, { field, file, shared: true });
+  }
+
+  const entries = Array.from(byId, ([id, entry]) => ({ id, ...entry }));
+  const unnumbered = entries.find(({ id }) => !/^\d+$/.test(id));
+  if (unnumbered) {
+    throw invalidField(unnumbered.field, 'expected a queue position after the dash');
+  }
+  entries.sort((a, b) => Number(a.id) - Number(b.id));
+
+  return entries.map(({ id, file, shared }) => {
+    const pageField = `page-${id}`;
+    if (!shared && !fields.has(pageField) && !needsServerDecode({ name: file.filename, type: file.mimeType })) {
+      return { id, file };
+    }
+    return {
+      id,
+      file,
+      decode: {
+        filename: file.filename,
+        // Checked against the document's page count once it is opened
+        page: readInt(pageField, 1, Number.MAX_SAFE_INTEGER, 1),
+        density: readInt(`density-${id}`, 1, MAX_DECODE_DENSITY, DEFAULT_DECODE_DENSITY),
+      },
+    };
+  });
+}
+
+/**
+ * Validate and read the merge options posted by the page. Images are the
+ * queue read by `readQueue` plus an optional `watermarkImage`; they are
+ * checked to be decodable and within `limits` before anything is merged.
+ */
+export async function readMergeRequest(
+  fields: Map<string, string>,
+  uploads: UploadedFile[],
+  limits: MergeLimits
+): Promise<MergeRequest> {
+  const { readText, readParam, readEdit } = fieldReader(fields);
+
+  const options: LayoutOptions = {
+    alignmentMode: readParam('alignmentMode'),
+    gridRows: readParam('gridRows'),
+    gridCols: readParam('gridCols'),
+    gridFit: readParam('gridFit'),
+    gridOverflow: readParam('gridOverflow'),
+    rowHeight: readParam('rowHeight'),
+    masonryCols: readParam('masonryCols'),
+    resizeWidth: readParam('resizeWidth') ?? undefined,
+    resizeHeight: readParam('resizeHeight') ?? undefined,
+    alignDimension: readParam('alignDimension'),
+    spacing: readParam('spacing'),
+    padding: readParam('padding'),
+    alignX: readParam('alignX'),
+    alignY: readParam('alignY'),
+  };
+
+  const output: OutputOptions = {
+    format: readParam('format'),
+    lossless: readParam('lossless'),
+    quality: readParam('quality'),
+    compressionLevel: readParam('compressionLevel'),
+    tiffCompression: readParam('tiffCompression'),
+    preserveBitDepth: readParam('preserveBitDepth'),
+    colorProfile: readParam('colorProfile'),
+    keepMetadata: readParam('keepMetadata'),
+    pyramid: readParam('pyramid'),
+  };
+
+  const preprocess: PreprocessOptions = {
+    trimBorders: readParam('trimBorders'),
+    trimThreshold: readParam('trimThreshold'),
+    stitchOverlap: readParam('stitchOverlap'),
+  };
+  if (preprocess.stitchOverlap && options.alignmentMode !== 'horizontal' && options.alignmentMode !== 'vertical') {
+    throw invalidField('stitchOverlap', 'only available for horizontal and vertical merges');
+  }
+
+  const captions: CaptionOptions = {
+    template: readParam('captionTemplate'),
+    position: readParam('captionPosition'),
+    fontSize: readParam('captionFontSize'),
+    color: readParam('captionColor'),
+  };
+  options.captionHeight = captionBandHeight(captions);
+  options.captionPosition = captions.position;
+
+  const watermark: WatermarkOptions = {
+    kind: readParam('watermark'),
+    target: readParam('watermarkTarget'),
+    text: readParam('watermarkText'),
+    color: readParam('watermarkColor'),
+    position: readParam('watermarkPosition'),
+    opacity: readParam('watermarkOpacity'),
+    scale: readParam('watermarkScale'),
+    tile: readParam('watermarkTile'),
+    margin: readParam('watermarkMargin'),
+  };
+  const watermarkImage = uploads.find((file) => file.field === 'watermarkImage');
+  if (watermark.kind === 'image' && !watermarkImage) {
+    throw invalidField('watermarkImage', 'an image watermark needs an uploaded image');
+  }
+  if (watermark.kind === 'text' && watermark.text.trim() === '') {
+    throw invalidField('watermarkText', 'a text watermark needs some text');
+  }
+
+  const background = readParam('background');
+
+  const verify = readParam('verify');
+  if (verify && output.pyramid !== 'none') {
+    throw invalidField('verify', 'tile pyramids cannot be verified');
+  }
+
+  const queue = readQueue(fields, uploads);
+  if (queue.length === 0) {
+    throw new MergeApiError('no_images', 'No images provided');
+  }
+  // Each page of a document counts as an image, though the document is uploaded once
+  if (queue.length > limits.maxFiles) {
+    throw new MergeApiError('too_many_files', `At most ${limits.maxFiles} files can be merged at once`, 413);
+  }
+
+  // Batch merges label every image with its group in `group-N`
+  const groupNames = queue.map(({ id }) => readText(`group-${id}`, MAX_GROUP_NAME_LENGTH, ''));
+  let groups: MergeGroup[] | undefined;
+  if (groupNames.some((name) => name !== '')) {
+    const missing = groupNames.findIndex((name) => name.trim() === '');
+    if (missing !== -1) {
+      throw invalidField(`group-${queue[missing].id}`, 'every image of a batch needs a group');
+    }
+    const byName = new Map<string, number[]>();
+    groupNames.forEach((name, i) => {
+      if (!byName.has(name)) byName.set(name, []);
+      byName.get(name)!.push(i);
+    });
+    groups = Array.from(byName, ([name, indices]) => ({ name, indices }));
+  }
+
+  const openPages = pageReaders();
+  const names: string[] = [];
+  const sourceSizes: Size[] = [];
+  for (const { file, decode } of queue) {
+    if (decode) {
+      const pages = await openPages(file, decode.density);
+      sourceSizes.push(await pages.pageSize(decode.page, limits));
+      // Named like the page's preview in the queue
+      names.push(decodedPageName(decodedBaseName(file.filename), decode.page, pages.pageCount));
+    } else {
+      names.push(file.filename);
+      sourceSizes.push(...(await inspectImages([file], limits)));
+    }
+  }
+  if (watermark.kind === 'image' && watermarkImage) {
+    await inspectImages([watermarkImage], limits);
+  }
+  const edits = queue.map(({ id }, i) => readEdit(`edit-${id}`, sourceSizes[i]));
+
+  // Lay out every page of every group up front so oversized results are refused before any decoding
+  const sizes = sourceSizes.map((size, i) => editedSize(size, edits[i]));
+  const layouts = (groups?.map((group) => group.indices) ?? [queue.map((_, i) => i)]).flatMap((indices) =>
+    paginate(indices.length, options).map((page) => computeLayout(page.map((i) => sizes[indices[i]]), options))
+  );
+  const outputPixels = layouts.reduce((sum, layout) => sum + layout.width * layout.height, 0);
+  if (outputPixels > limits.maxOutputPixels) {
+    throw new MergeApiError(
+      'output_too_large',
+      `The merged result would be ${outputPixels.toLocaleString()} pixels, more than the ${limits.maxOutputPixels.toLocaleString()} allowed`,
+      413
+    );
+  }
+  // libvips zips pyramids itself; they are held to the same entry limit as the zips streamed here
+  if (output.pyramid !== 'none') {
+    const files = Math.max(...layouts.map((layout) => pyramidFileCount(layout.width, layout.height)));
+    if (files > ZIP_MAX_ENTRIES) {
+      throw new MergeApiError(
+        'output_too_large',
+        `The tile pyramid would hold ${files.toLocaleString()} files, more than the ${ZIP_MAX_ENTRIES.toLocaleString()} a zip can`,
+        413
+      );
+    }
+  }
+
+  return {
+    inputs: queue.map(({ file, decode }, i) => ({
+      path: file.path,
+      name: names[i],
+      index: i + 1,
+      edit: edits[i],
+      ...(decode && { decode }),
+    })),
+    options,
+    settings: {
+      background,
+      output,
+      preprocess,
+      captions,
+      watermark,
+      watermarkPath: watermark.kind === 'image' ? watermarkImage?.path : undefined,
+      verify,
+    },
+    groups,
+  };
+}
+
+/**
+ * Build the download response for the files written by `mergeRequestToFiles`:
+ * the image itself for a single page, or a zip of all pages. Batch results,
+ * and results with a verification report at `reportPath`, are always zipped.
+ * `onClose` runs once the body has been sent or the client has gone away.
+ */
+export async function mergeResultResponse(
+  outputPaths: string[],
+  output: OutputOptions,
+  onClose: () => void,
+  batch = false,
+  reportPath?: string
+): Promise<Response> {
+  const { mimeType, extension } = output.pyramid === 'none'
+    ? OUTPUT_FORMATS[output.format]
+    : { mimeType: 'application/zip', extension: 'zip' };
+
+  if (outputPaths.length === 1 && !batch && !reportPath) {
+    // Stream the image from disk rather than buffering it
+    const { size } = await stat(outputPaths[0]);
+    return new Response(streamFile(outputPaths[0], onClose), {
+      status: 200,
+      headers: {
+        'Content-Type': mimeType,
+        'Content-Length': size.toString(),
+        'Content-Disposition': `attachment; filename="merged-image.${extension}"`,
+      },
+    });
+  }
+
+  // Several pages or groups, or a report: bundle them into a zip
+  const zipName = batch ? 'merged-batch.zip' : 'merged-images.zip';
+  return new Response(
+    await streamZip(
+      [...outputPaths, ...(reportPath ? [reportPath] : [])].map((file) => ({ name: path.basename(file), path: file })),
+      onClose
+    ),
+    {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${zipName}"`,
+      },
+    }
+  );
+}
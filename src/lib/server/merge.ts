@@ -0,0 +1,487 @@
+import path from 'path';
+import { writeFile } from 'fs/promises';
+import sharp from 'sharp';
+import { formatCaption, type CaptionOptions } from '@/lib/captions';
+import { editedSize, isIdentityEdit, type Crop, type ImageEdit } from '@/lib/image-edit';
+import { computeLayout, paginate, type Layout, type LayoutOptions, type Placement, type Size } from '@/lib/layout';
+import type { MergePhase, MergeProgress } from '@/lib/merge-job';
+import { isLossless, OUTPUT_FORMATS, type OutputOptions } from '@/lib/output-format';
+import type { PreprocessOptions } from '@/lib/preprocess';
+import { captionOverlay } from '@/lib/server/captions';
+import type { PageDecode } from '@/lib/server/decode';
+import { encodeOutput, OutputFormatError } from '@/lib/server/encode';
+import { MERGE_LIMITS } from '@/lib/server/limits';
+import { findStitchOverlap, trimBorders } from '@/lib/server/preprocess';
+import { checkTile } from '@/lib/server/verify';
+import { loadWatermark, type Watermark } from '@/lib/server/watermark';
+import { overlaps, resizedReason, tileStatus, type TileVerification } from '@/lib/verify';
+import { watermarkPlacements, type WatermarkOptions } from '@/lib/watermark';
+
+// Disable sharp's cache and limit threads to keep memory usage predictable
+sharp.cache(false);
+sharp.concurrency(1);
+
+// Upper bound on the pixel data of one composited strip
+const STRIP_BYTES = 64 * 1024 * 1024;
+
+// Uploads are capped to guard against decompression bombs; memory is bounded by processing in strips
+export const INPUT_OPTIONS = { limitInputPixels: MERGE_LIMITS.maxInputPixels, unlimited: true } as const;
+
+// Tiles and strips are our own files, already bounded by the output pixel cap
+export const INTERMEDIATE_OPTIONS = { limitInputPixels: false, unlimited: true } as const;
+
+interface RenderSettings {
+  background: string;
+  output: OutputOptions;
+  captions: CaptionOptions;
+  watermark?: Watermark;
+  watermarkOptions: WatermarkOptions;
+  sixteenBit: boolean;  // Composite and encode at 16 bits per channel
+  iccProfile?: string;  // Built-in profile name or path to an .icc file
+  metadataSource?: string;  // Image whose EXIF/XMP is copied to the output
+  verify: boolean;  // Read every image back from the encoded page and compare it
+}
+
+export interface MergeInput {
+  path: string;  // The upload, which output metadata is read from
+  name: string;  // Original filename, for captions
+  index: number;  // 1-based position in the whole queue, also when merged as part of a batch
+  edit: ImageEdit;
+  decode?: PageDecode;  // Set for files only the server decodes; the page is decoded in full before merging
+  decodedPath?: string;  // The decoded page, read instead of `path` for pixels
+}
+
+// File holding an input's pixels
+const pixelPath = (input: MergeInput) => input.decodedPath ?? input.path;
+
+export interface MergeSettings {
+  background: string;
+  output: OutputOptions;
+  preprocess: PreprocessOptions;
+  captions: CaptionOptions;
+  watermark: WatermarkOptions;
+  watermarkPath?: string;  // Uploaded image for image watermarks
+  verify: boolean;
+}
+
+// Verification of one image, before it is labelled with its position in the queue
+type PageCheck = Omit<TileVerification, 'index' | 'name' | 'group' | 'page'>;
+
+export interface MergeOutput {
+  outputPaths: string[];
+  verification?: TileVerification[];  // Only when verification was requested
+}
+
+// An image ready to be laid out: an upload, or an intermediate file with edits and trimming applied
+interface TileSource {
+  path: string;
+  upload: boolean;  // Still needs EXIF orientation and the upload pixel limit
+  size: Size;  // Of the whole oriented image
+  region?: Crop;  // Part of the image kept after stitching
+}
+
+// Size of the part of a source that is laid out
+const keptSize = ({ region, size }: TileSource): Size =>
+  region ? { width: region.width, height: region.height } : size;
+
+export interface MergeHooks {
+  onProgress?: (progress: MergeProgress) => void;
+  signal?: AbortSignal;  // Checked between steps; aborting rejects with the signal's reason
+}
+
+// Report progress within the current page and stop early if the merge was cancelled
+type ReportStep = (phase: MergePhase, completed: number, total: number) => void;
+
+// Create the page canvas, carrying metadata over from the source image if requested
+function createBaseCanvas(width: number, height: number, settings: RenderSettings): sharp.Sharp {
+  if (!settings.metadataSource) {
+    return sharp({
+      create: { width, height, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } },
+      ...INTERMEDIATE_OPTIONS,
+    });
+  }
+
+  // sharp can only keep EXIF/XMP from a pipeline's own input, so the canvas is
+  // grown from one pixel of the source image and cleared before compositing
+  return sharp(settings.metadataSource, INPUT_OPTIONS)
+    .autoOrient()
+    .extract({ left: 0, top: 0, width: 1, height: 1 })
+    .resize(width, height, { fit: 'fill', kernel: 'nearest' })
+    .ensureAlpha()
+    .keepExif()
+    .keepXmp();
+}
+
+// Crop, rotate and mirror an EXIF-oriented image as described by `edit`
+function applyEdit(image: sharp.Sharp, edit: ImageEdit): sharp.Sharp {
+  if (edit.crop) {
+    image = image.extract(edit.crop);
+  }
+  if (edit.rotate !== 0) {
+    image = image.rotate(edit.rotate);
+  }
+
+  // sharp mirrors before rotating, so a quarter turn swaps the axes
+  const quarterTurn = edit.rotate === 90 || edit.rotate === 270;
+  if (quarterTurn ? edit.flipH : edit.flipV) {
+    image = image.flip();
+  }
+  if (quarterTurn ? edit.flipV : edit.flipH) {
+    image = image.flop();
+  }
+  return image;
+}
+
+// Open a source as a sharp pipeline over its oriented pixels, without the stitching region
+function openSource(source: TileSource): sharp.Sharp {
+  return source.upload
+    ? sharp(source.path, INPUT_OPTIONS).autoOrient()
+    : sharp(source.path, INTERMEDIATE_OPTIONS);
+}
+
+// Resize and colour-convert one image into a random-access tile file
+async function prepareTile(
+  source: TileSource,
+  placement: Placement,
+  settings: RenderSettings,
+  tilePath: string
+): Promise<void> {
+  let image = openSource(source);
+  if (source.region) {
+    image = image.extract(source.region);
+  }
+
+  // Resize only when the layout scaled this image
+  const size = keptSize(source);
+  if (placement.width !== size.width || placement.height !== size.height) {
+    image = image.resize(placement.width, placement.height, { fit: 'fill' });
+  }
+
+  if (settings.watermark && settings.watermarkOptions.target === 'tile') {
+    image = image.composite(
+      await settings.watermark.overlays({ left: 0, top: 0, width: placement.width, height: placement.height })
+    );
+  }
+
+  // Convert into the output profile before compositing
+  if (settings.iccProfile) {
+    image = image.withIccProfile(settings.iccProfile);
+  }
+  if (settings.sixteenBit) {
+    image = image.toColourspace('rgb16');
+  }
+
+  await image.toFile(tilePath);
+}
+
+// Composite the rows [top, top + height) of the page from the tiles and captions that overlap them
+async function renderStrip(
+  top: number,
+  height: number,
+  layout: Layout,
+  tilePaths: string[],
+  captions: string[],
+  settings: RenderSettings,
+  stripPath: string
+): Promise<void> {
+  const { width, placements } = layout;
+  const overlays: sharp.OverlayOptions[] = [];
+
+  for (let i = 0; i < placements.length; i++) {
+    const placement = placements[i];
+    const from = Math.max(top, placement.top);
+    const to = Math.min(top + height, placement.top + placement.height);
+    if (from >= to) continue;
+
+    const region = await sharp(tilePaths[i], INTERMEDIATE_OPTIONS)
+      .extract({ left: 0, top: from - placement.top, width: placement.width, height: to - from })
+      .png({ compressionLevel: 0 })
+      .toBuffer();
+    overlays.push({ input: region, left: placement.left, top: from - top });
+  }
+
+  const captionSvg = captionOverlay(captions, layout.captions, settings.captions, top, height, width);
+  if (captionSvg) {
+    overlays.push({ input: captionSvg, left: 0, top: 0 });
+  }
+
+  let strip = sharp({
+    create: { width, height, channels: 4, background: settings.background },
+    ...INTERMEDIATE_OPTIONS,
+  });
+  if (settings.sixteenBit) {
+    strip = strip.pipelineColourspace('rgb16').toColourspace('rgb16');
+  }
+
+  await strip.composite(overlays).toFile(stripPath);
+}
+
+/**
+ * Lay out and composite one output page into `outputPath`. When verifying,
+ * each image is then compared with the page as encoded; `intended` lists the
+ * changes each image is known to undergo regardless of where it is placed.
+ */
+async function renderPage(
+  sources: TileSource[],
+  captions: string[],
+  intended: string[][],
+  options: LayoutOptions,
+  settings: RenderSettings,
+  workDir: string,
+  outputPath: string,
+  report: ReportStep
+): Promise<PageCheck[]> {
+  const layout = computeLayout(sources.map(keptSize), options);
+  const pageId = path.parse(outputPath).name;
+
+  // Process images one at a time to bound memory usage
+  const tilePaths: string[] = [];
+  for (let i = 0; i < sources.length; i++) {
+    report('resize', i, sources.length);
+    const tilePath = path.join(workDir, `${pageId}-tile-${i}.v`);
+    await prepareTile(sources[i], layout.placements[i], settings, tilePath);
+    tilePaths.push(tilePath);
+  }
+
+  // Composite the page in horizontal strips small enough to hold in memory
+  const bytesPerRow = layout.width * 4 * (settings.sixteenBit ? 2 : 1);
+  const stripHeight = Math.max(1, Math.min(layout.height, Math.floor(STRIP_BYTES / bytesPerRow)));
+  const stripCount = Math.ceil(layout.height / stripHeight);
+  const strips: sharp.OverlayOptions[] = [];
+  for (let top = 0; top < layout.height; top += stripHeight) {
+    report('composite', strips.length, stripCount);
+    const height = Math.min(stripHeight, layout.height - top);
+    const stripPath = path.join(workDir, `${pageId}-strip-${strips.length}.v`);
+    await renderStrip(top, height, layout, tilePaths, captions, settings, stripPath);
+    strips.push({ input: stripPath, left: 0, top });
+  }
+
+  // Stitch the strips; libvips streams them from disk while encoding
+  let mergedImage = createBaseCanvas(layout.width, layout.height, settings);
+  if (settings.sixteenBit) {
+    mergedImage = mergedImage.pipelineColourspace('rgb16').toColourspace('rgb16');
+  }
+  if (settings.iccProfile) {
+    mergedImage = mergedImage.withIccProfile(settings.iccProfile);
+  }
+
+  // Clear the canvas first: each strip already carries the background, and
+  // drawing it over anything but transparency would blend it twice
+  const clear: sharp.OverlayOptions = {
+    input: { create: { width: 1, height: 1, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } },
+    blend: 'clear',
+  };
+
+  const marks = settings.watermark && settings.watermarkOptions.target === 'merged'
+    ? await settings.watermark.overlays({ left: 0, top: 0, width: layout.width, height: layout.height })
+    : [];
+
+  report('encode', 0, 1);
+  await encodeOutput(mergedImage.composite([clear, ...strips, ...marks]), settings.output).toFile(outputPath);
+
+  if (!settings.verify) return [];
+
+  // Decode the page once so that each image can be read back without decoding it again
+  const decodedPath = path.join(workDir, `${pageId}-decoded.v`);
+  await sharp(outputPath, INTERMEDIATE_OPTIONS).toFile(decodedPath);
+
+  const markAreas = settings.watermark && settings.watermarkOptions.target === 'merged'
+    ? watermarkPlacements({ left: 0, top: 0, width: layout.width, height: layout.height }, settings.watermark.size, settings.watermarkOptions)
+    : [];
+  // Transparency is lost to an opaque background, and JPEG has no alpha at all
+  const opaqueBackground = settings.background !== 'transparent' || settings.output.format === 'jpeg';
+
+  const checks: PageCheck[] = [];
+  for (let i = 0; i < sources.length; i++) {
+    report('verify', i, sources.length);
+    const source = sources[i];
+    const placement = layout.placements[i];
+    const size = keptSize(source);
+
+    const reasons = [...intended[i]];
+    if (placement.width !== size.width || placement.height !== size.height) {
+      reasons.push(resizedReason(size, placement));
+    }
+    if (settings.watermark && (settings.watermarkOptions.target === 'tile' || markAreas.some((mark) => overlaps(mark, placement)))) {
+      reasons.push('watermarked');
+    }
+
+    const check = await checkTile(
+      () => openSource(source),
+      source.region ?? { left: 0, top: 0, ...source.size },
+      () => sharp(decodedPath, INTERMEDIATE_OPTIONS),
+      placement,
+      settings.sixteenBit
+    );
+    if (check.translucent && opaqueBackground) {
+      reasons.push('transparent pixels blended with the background');
+    }
+
+    checks.push({
+      placement,
+      status: tileStatus(check.differentPixels, reasons),
+      reasons,
+      inputHash: check.inputHash,
+      outputHash: check.outputHash,
+      differentPixels: check.differentPixels,
+    });
+  }
+  return checks;
+}
+
+/**
+ * Apply edits, border trimming and overlap removal, producing what gets laid
+ * out. Images that need none of these are used straight from the upload.
+ */
+async function prepareSources(
+  inputs: MergeInput[],
+  imageMetadata: sharp.Metadata[],
+  preprocess: PreprocessOptions,
+  options: LayoutOptions,
+  workDir: string,
+  report: ReportStep
+): Promise<TileSource[]> {
+  const sources: TileSource[] = [];
+
+  for (let i = 0; i < inputs.length; i++) {
+    const input = inputs[i];
+    let source: TileSource = { path: pixelPath(input), upload: true, size: imageMetadata[i].autoOrient };
+
+    // sharp cannot crop, rotate and resize in one pipeline, so edits get their own file
+    if (!isIdentityEdit(input.edit)) {
+      report('prepare', i, inputs.length);
+      const editedPath = path.join(workDir, `source-${i}-edited.v`);
+      await applyEdit(openSource(source), input.edit).toFile(editedPath);
+      source = { path: editedPath, upload: false, size: editedSize(source.size, input.edit) };
+    }
+
+    if (preprocess.trimBorders) {
+      report('prepare', i, inputs.length);
+      const trimmedPath = path.join(workDir, `source-${i}-trimmed.v`);
+      const size = await trimBorders(openSource(source), preprocess.trimThreshold, trimmedPath);
+      source = { path: trimmedPath, upload: false, size };
+    }
+
+    sources.push(source);
+  }
+
+  // Remove the content each image repeats from its predecessor
+  const axis = options.alignmentMode;
+  if (preprocess.stitchOverlap && (axis === 'horizontal' || axis === 'vertical')) {
+    for (let i = 1; i < sources.length; i++) {
+      report('prepare', i, sources.length);
+      // Regions only ever cut the leading edge, so the previous image's far edge is intact
+      const previous = sources[i - 1];
+      const source = sources[i];
+      const overlap = await findStitchOverlap(
+        openSource(previous),
+        previous.size,
+        openSource(source),
+        source.size,
+        axis
+      );
+      if (overlap === 0) continue;
+
+      source.region = axis === 'vertical'
+        ? { left: 0, top: overlap, width: source.size.width, height: source.size.height - overlap }
+        : { left: overlap, top: 0, width: source.size.width - overlap, height: source.size.height };
+    }
+  }
+
+  return sources;
+}
+
+/**
+ * Merge the images at `inputs` into one file per output page, written into
+ * `workDir`. Only one image or one strip is decoded at a time, so peak memory
+ * does not grow with the number or size of the inputs.
+ */
+export async function mergeToFiles(
+  inputs: MergeInput[],
+  options: LayoutOptions,
+  { background, output, preprocess, captions, watermark, watermarkPath, verify }: MergeSettings,
+  workDir: string,
+  { onProgress, signal }: MergeHooks = {}
+): Promise<MergeOutput> {
+  const pages = paginate(inputs.length, options);
+  if (pages.length > 1 && output.pyramid !== 'none') {
+    throw new OutputFormatError('Tile pyramids can only be produced for a single page');
+  }
+
+  const reportFor = (page: number): ReportStep => (phase, completed, total) => {
+    signal?.throwIfAborted();
+    onProgress?.({ phase, completed, total, page, pageCount: pages.length });
+  };
+
+  // First pass: read all image metadata
+  const reportDecode = reportFor(0);
+  const imageMetadata = [];
+  for (const input of inputs) {
+    reportDecode('decode', imageMetadata.length, inputs.length);
+    imageMetadata.push(await sharp(pixelPath(input), INPUT_OPTIONS).metadata());
+  }
+
+  const sources = await prepareSources(inputs, imageMetadata, preprocess, options, workDir, reportFor(0));
+
+  // Captions describe the images as laid out, after edits and trimming
+  const captionTexts = sources.map((source, i) =>
+    captions.template
+      ? formatCaption(captions.template, { name: inputs[i].name, index: inputs[i].index, ...keptSize(source) })
+      : ''
+  );
+
+  const settings: RenderSettings = {
+    background,
+    output,
+    captions,
+    watermark: await loadWatermark(watermark, watermarkPath, INPUT_OPTIONS),
+    watermarkOptions: watermark,
+    sixteenBit:
+      output.preserveBitDepth &&
+      OUTPUT_FORMATS[output.format].supports16Bit &&
+      imageMetadata.some((metadata) => metadata.depth === 'ushort'),
+    // Pages the server decoded carry the EXIF and XMP libvips read from their upload
+    metadataSource: output.keepMetadata ? pixelPath(inputs[0]) : undefined,
+    verify,
+  };
+
+  if (output.colorProfile === 'p3') {
+    settings.iccProfile = 'p3';
+  } else if (output.colorProfile === 'input' && imageMetadata[0].icc) {
+    // sharp only accepts custom profiles as a file path
+    settings.iccProfile = path.join(workDir, 'input-profile.icc');
+    await writeFile(settings.iccProfile, imageMetadata[0].icc);
+  }
+
+  // Changes verification should expect from the settings rather than the layout
+  const intended = imageMetadata.map((metadata) => [
+    ...(isLossless(output) ? [] : [`lossy ${OUTPUT_FORMATS[output.format].label} encoding`]),
+    ...(settings.iccProfile ? ['converted to the output colour profile'] : []),
+    ...(metadata.depth === 'ushort' && !settings.sixteenBit ? ['reduced to 8 bits per channel'] : []),
+  ]);
+
+  // Render each page one at a time
+  const extension = output.pyramid === 'none' ? OUTPUT_FORMATS[output.format].extension : 'zip';
+  const outputPaths: string[] = [];
+  const verification: TileVerification[] = [];
+  for (const page of pages) {
+    const pageNumber = outputPaths.length + 1;
+    const outputPath = path.join(workDir, `merged-image-${pageNumber}.${extension}`);
+    const checks = await renderPage(
+      page.map((i) => sources[i]),
+      page.map((i) => captionTexts[i]),
+      page.map((i) => intended[i]),
+      options,
+      settings,
+      workDir,
+      outputPath,
+      reportFor(pageNumber)
+    );
+    checks.forEach((check, i) => {
+      verification.push({ index: inputs[page[i]].index, name: inputs[page[i]].name, page: pageNumber, ...check });
+    });
+    outputPaths.push(outputPath);
+  }
+
+  return { outputPaths, ...(verify && { verification }) };
+}
@@ -0,0 +1,100 @@
+import Busboy from 'busboy';
+import { createWriteStream } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { formatBytes } from '@/lib/output-format';
+import { MergeApiError } from '@/lib/server/errors';
+import type { MergeLimits } from '@/lib/server/limits';
+
+export interface UploadedFile {
+  field: string;
+  filename: string;
+  mimeType: string;
+  path: string;
+}
+
+export type UploadLimits = Pick<MergeLimits, 'maxFiles' | 'maxFileBytes' | 'maxRequestBytes'>;
+
+export interface MultipartResult {
+  fields: Map<string, string>;
+  files: UploadedFile[];
+}
+
+/**
+ * Stream a multipart request body to disk. Uploaded files are written into
+ * `dir` as they arrive, so nothing is buffered in memory. The upload is cut
+ * off as soon as it exceeds one of `limits`.
+ */
+export async function parseMultipartToDisk(
+  request: Request,
+  dir: string,
+  limits: UploadLimits
+): Promise<MultipartResult> {
+  if (!request.body) {
+    throw new MergeApiError('no_images', 'Request has no body');
+  }
+
+  const tooLarge = () =>
+    new MergeApiError('request_too_large', `Uploads are limited to ${formatBytes(limits.maxRequestBytes)} in total`, 413);
+
+  if (Number(request.headers.get('content-length')) > limits.maxRequestBytes) {
+    throw tooLarge();
+  }
+
+  const fields = new Map<string, string>();
+  const files: UploadedFile[] = [];
+  const writes: Promise<void>[] = [];
+  let receivedBytes = 0;
+
+  const source = Readable.fromWeb(request.body as NodeReadableStream<Uint8Array>);
+  const fail = (error: MergeApiError) => source.destroy(error);
+
+  const busboy = Busboy({
+    headers: { 'content-type': request.headers.get('content-type') ?? '' },
+    // One more than the images merged, for a watermark image; how many images a merge holds is checked once its fields are read
+    limits: { files: limits.maxFiles + 1, fileSize: limits.maxFileBytes },
+  });
+
+  busboy.on('filesLimit', () => {
+    fail(new MergeApiError('too_many_files', `At most ${limits.maxFiles} files can be merged at once`, 413));
+  });
+
+  busboy.on('field', (name, value) => {
+    fields.set(name, value);
+  });
+
+  busboy.on('file', (field, stream, info) => {
+    const file: UploadedFile = {
+      field,
+      filename: info.filename,
+      mimeType: info.mimeType,
+      path: path.join(dir, `upload-${files.length}`),
+    };
+    files.push(file);
+
+    stream.on('limit', () => {
+      fail(new MergeApiError(
+        'file_too_large',
+        `${info.filename} is larger than ${formatBytes(limits.maxFileBytes)}`,
+        413,
+        info.filename
+      ));
+    });
+    stream.on('data', (chunk: Buffer) => {
+      receivedBytes += chunk.length;
+      if (receivedBytes > limits.maxRequestBytes) fail(tooLarge());
+    });
+
+    const write = pipeline(stream, createWriteStream(file.path));
+    // Abandoned when the upload is cut off; the failure is reported by the main pipeline
+    write.catch(() => {});
+    writes.push(write);
+  });
+
+  await pipeline(source, busboy);
+  await Promise.all(writes);
+
+  return { fields, files };
+}
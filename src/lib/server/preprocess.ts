@@ -0,0 +1,110 @@
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+import type { Crop } from '@/lib/image-edit';
+import type { Size } from '@/lib/layout';
+import { findOverlap } from '@/lib/preprocess';
+
+export type StitchAxis = 'horizontal' | 'vertical';
+
+// Upper bound on the pixel data read from each side of a seam
+const SEAM_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Write `image` with uniform borders removed to `outputPath`, returning the
+ * new size. Images that are entirely border are written unchanged.
+ */
+export async function trimBorders(image: sharp.Sharp, threshold: number, outputPath: string): Promise<Size> {
+  try {
+    const info = await image.clone().trim({ threshold }).toFile(outputPath);
+    return { width: info.width, height: info.height };
+  } catch {
+    // libvips refuses to trim an image down to nothing
+    const info = await image.toFile(outputPath);
+    return { width: info.width, height: info.height };
+  }
+}
+
+// Raw 8-bit RGBA lines (rows for vertical stitching, columns for horizontal) along one edge
+async function edgeLines(
+  image: sharp.Sharp,
+  size: Size,
+  axis: StitchAxis,
+  edge: 'start' | 'end',
+  count: number
+): Promise<Buffer[]> {
+  const region: Crop = axis === 'vertical'
+    ? { left: 0, top: edge === 'start' ? 0 : size.height - count, width: size.width, height: count }
+    : { left: edge === 'start' ? 0 : size.width - count, top: 0, width: count, height: size.height };
+
+  const data = await image
+    .extract(region)
+    .ensureAlpha()
+    .toColourspace('srgb')
+    .raw()
+    .toBuffer();
+
+  const lines: Buffer[] = [];
+  if (axis === 'vertical') {
+    const rowBytes = region.width * 4;
+    for (let y = 0; y < count; y++) {
+      lines.push(data.subarray(y * rowBytes, (y + 1) * rowBytes));
+    }
+  } else {
+    for (let x = 0; x < count; x++) {
+      const column = Buffer.alloc(region.height * 4);
+      for (let y = 0; y < region.height; y++) {
+        data.copy(column, y * 4, (y * region.width + x) * 4, (y * region.width + x + 1) * 4);
+      }
+      lines.push(column);
+    }
+  }
+  return lines;
+}
+
+// A line of a single repeated pixel, such as a blank margin
+const isUniform = (line: Buffer) => {
+  for (let i = 4; i < line.length; i += 4) {
+    if (line.readUInt32LE(i) !== line.readUInt32LE(0)) return false;
+  }
+  return true;
+};
+
+/**
+ * Number of pixel lines at the start of `second` that exactly repeat the end
+ * of `first`, such as the content two consecutive scrolling screenshots have
+ * in common. Overlaps made only of blank lines are ignored, and at least one
+ * line of `second` is always left.
+ */
+export async function findStitchOverlap(
+  first: sharp.Sharp,
+  firstSize: Size,
+  second: sharp.Sharp,
+  secondSize: Size,
+  axis: StitchAxis
+): Promise<number> {
+  const length = (size: Size) => (axis === 'vertical' ? size.height : size.width);
+  const breadth = (size: Size) => (axis === 'vertical' ? size.width : size.height);
+
+  // Lines can only match when they have the same length
+  if (breadth(firstSize) !== breadth(secondSize)) return 0;
+
+  const count = Math.min(
+    length(firstSize),
+    length(secondSize) - 1,
+    Math.floor(SEAM_BYTES / (breadth(firstSize) * 4))
+  );
+  if (count < 1) return 0;
+
+  const before = await edgeLines(first, firstSize, axis, 'end', count);
+  const after = await edgeLines(second, secondSize, axis, 'start', count);
+  const hash = (line: Buffer) => createHash('sha1').update(line).digest('hex');
+
+  return findOverlap(before.map(hash), after.map(hash), (overlap) => {
+    const repeated = after.slice(0, overlap);
+    // Confirm the hashes byte for byte, and require some actual content
+    return (
+      repeated.every((line, i) => line.equals(before[count - overlap + i])) &&
+      repeated.some((line) => !isUniform(line))
+    );
+  });
+}
@@ -0,0 +1,66 @@
+import path from 'path';
+import { MAX_DIMENSION } from '@/lib/layout';
+import { DEFAULT_SPLIT_SPEC, type SplitMode, type SplitSpec } from '@/lib/split';
+import { MergeApiError } from '@/lib/server/errors';
+import type { MergeLimits } from '@/lib/server/limits';
+import { fieldReader, inspectImages, invalidField } from '@/lib/server/merge-request';
+import type { UploadedFile } from '@/lib/server/multipart';
+import type { SplitOutput } from '@/lib/server/split';
+import { streamZip } from '@/lib/server/stream';
+
+export interface SplitRequest {
+  image: UploadedFile;
+  baseName: string;  // Upload name without its extension, used to name the tiles
+  spec: SplitSpec;
+}
+
+const SPLIT_MODES: readonly SplitMode[] = ['size', 'grid', 'strips'];
+
+/**
+ * Validate and read a split request: exactly one upload in the `image`
+ * field, checked like merge inputs, plus the slicing spec.
+ */
+export async function readSplitRequest(
+  fields: Map<string, string>,
+  uploads: UploadedFile[],
+  limits: MergeLimits
+): Promise<SplitRequest> {
+  const { readEnum, readInt } = fieldReader(fields);
+
+  const spec: SplitSpec = {
+    mode: readEnum('mode', SPLIT_MODES, DEFAULT_SPLIT_SPEC.mode),
+    tileWidth: readInt('tileWidth', 1, MAX_DIMENSION, DEFAULT_SPLIT_SPEC.tileWidth),
+    tileHeight: readInt('tileHeight', 1, MAX_DIMENSION, DEFAULT_SPLIT_SPEC.tileHeight),
+    rows: readInt('rows', 1, 1000, DEFAULT_SPLIT_SPEC.rows),
+    cols: readInt('cols', 1, 1000, DEFAULT_SPLIT_SPEC.cols),
+    stripHeight: readInt('stripHeight', 1, MAX_DIMENSION, DEFAULT_SPLIT_SPEC.stripHeight),
+  };
+
+  const images = uploads.filter((file) => file.field === 'image');
+  if (images.length === 0) {
+    throw new MergeApiError('no_images', 'No image provided');
+  }
+  if (images.length > 1) {
+    throw invalidField('image', 'expected exactly one image');
+  }
+  await inspectImages(images, limits);
+
+  // Keep the name safe for zip entries and the Content-Disposition header
+  const baseName = path.parse(images[0].filename).name.replace(/[^\w.-]+/g, '_') || 'image';
+  return { image: images[0], baseName, spec };
+}
+
+/** Build the zip download of the tiles written by `splitToFiles`. */
+export async function splitResultResponse(
+  baseName: string,
+  outputs: SplitOutput[],
+  onClose: () => void
+): Promise<Response> {
+  return new Response(await streamZip(outputs, onClose), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="${baseName}-tiles.zip"`,
+    },
+  });
+}
@@ -0,0 +1,45 @@
+import path from 'path';
+import sharp from 'sharp';
+import { computeSplit, tileFileName, type SplitSpec } from '@/lib/split';
+import { INPUT_OPTIONS, INTERMEDIATE_OPTIONS } from '@/lib/server/merge';
+
+export interface SplitOutput {
+  name: string;  // File name inside the zip
+  path: string;
+}
+
+/**
+ * Cut the image at `imagePath` into lossless PNG tiles written into
+ * `workDir`. The EXIF-oriented image is decoded once into a random-access
+ * file, so each tile only reads its own region. Bit depth and the colour
+ * profile are kept.
+ */
+export async function splitToFiles(
+  imagePath: string,
+  baseName: string,
+  spec: SplitSpec,
+  workDir: string
+): Promise<SplitOutput[]> {
+  const orientedPath = path.join(workDir, 'split-source.v');
+  const metadata = await sharp(imagePath, INPUT_OPTIONS).metadata();
+  // Checked against the header's oriented size, so invalid specs are rejected before anything is decoded
+  const tiles = computeSplit(metadata.autoOrient, spec);
+  await sharp(imagePath, INPUT_OPTIONS).autoOrient().keepIccProfile().toFile(orientedPath);
+
+  const outputs: SplitOutput[] = [];
+  for (const tile of tiles) {
+    const name = tileFileName(baseName, tile, tiles, 'png');
+    const tilePath = path.join(workDir, `tile-${outputs.length}.png`);
+
+    let image = sharp(orientedPath, INTERMEDIATE_OPTIONS)
+      .extract({ left: tile.left, top: tile.top, width: tile.width, height: tile.height })
+      .keepIccProfile();
+    if (metadata.depth === 'ushort') {
+      image = image.toColourspace('rgb16');
+    }
+    await image.png().toFile(tilePath);
+
+    outputs.push({ name, path: tilePath });
+  }
+  return outputs;
+}
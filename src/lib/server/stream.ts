@@ -0,0 +1,89 @@
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import { once } from 'events';
+import { PassThrough, Readable } from 'stream';
+import { Zip, ZipPassThrough } from 'fflate';
+import { formatBytes } from '@/lib/output-format';
+import { MergeApiError } from '@/lib/server/errors';
+
+// fflate writes no ZIP64 records, so a zip holds at most 65,535 entries and 4 GiB
+export const ZIP_MAX_ENTRIES = 0xffff;
+const ZIP_MAX_BYTES = 0xffffffff;
+// Local header, data descriptor and central directory record of each entry, besides its name twice
+const ZIP_ENTRY_OVERHEAD = 30 + 16 + 46;
+const ZIP_END_RECORD = 22;
+
+// Convert a Node stream into a web stream for use as a Response body
+const toWebStream = (stream: Readable) => Readable.toWeb(stream) as ReadableStream<Uint8Array>;
+
+// Stream a file from disk, calling `onClose` once it has been fully sent or aborted
+export function streamFile(filePath: string, onClose: () => void): ReadableStream<Uint8Array> {
+  const stream = createReadStream(filePath);
+  stream.on('close', onClose);
+  return toWebStream(stream);
+}
+
+// Refuse zips that would need ZIP64, before any of it is sent
+async function checkZipLimits(entries: Array<{ name: string; path: string }>): Promise<void> {
+  if (entries.length > ZIP_MAX_ENTRIES) {
+    throw new MergeApiError(
+      'output_too_large',
+      `The download would hold ${entries.length.toLocaleString()} files, more than the ${ZIP_MAX_ENTRIES.toLocaleString()} a zip can`,
+      413
+    );
+  }
+
+  let bytes = ZIP_END_RECORD;
+  for (const entry of entries) {
+    bytes += ZIP_ENTRY_OVERHEAD + 2 * Buffer.byteLength(entry.name) + (await stat(entry.path)).size;
+  }
+  if (bytes > ZIP_MAX_BYTES) {
+    throw new MergeApiError(
+      'output_too_large',
+      `The download would be ${formatBytes(bytes)}, more than the ${formatBytes(ZIP_MAX_BYTES)} a zip can hold`,
+      413
+    );
+  }
+}
+
+/**
+ * Stream a zip of the given files without loading any of them into memory.
+ * Entries are stored uncompressed since the images are already encoded.
+ * Rejects with `output_too_large` when the files do not fit in a zip without
+ * ZIP64 extensions; `onClose` is only called once streaming has started.
+ */
+export async function streamZip(
+  entries: Array<{ name: string; path: string }>,
+  onClose: () => void
+): Promise<ReadableStream<Uint8Array>> {
+  await checkZipLimits(entries);
+
+  const out = new PassThrough();
+  out.on('close', onClose);
+
+  const zip = new Zip((error, chunk, final) => {
+    if (error) {
+      out.destroy(error);
+      return;
+    }
+    out.write(chunk);
+    if (final) out.end();
+  });
+
+  (async () => {
+    for (const entry of entries) {
+      const file = new ZipPassThrough(entry.name);
+      zip.add(file);
+      for await (const chunk of createReadStream(entry.path)) {
+        file.push(chunk);
+        // Wait for the client to catch up before reading more
+        if (out.writableNeedDrain) await Promise.race([once(out, 'drain'), once(out, 'close')]);
+        if (out.destroyed) return;
+      }
+      file.push(new Uint8Array(0), true);
+    }
+    zip.end();
+  })().catch((error) => out.destroy(error));
+
+  return toWebStream(out);
+}
@@ -0,0 +1,104 @@
+import { createHash } from 'crypto';
+import { writeFile } from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+import type { Placement } from '@/lib/layout';
+import { buildVerificationReport, countDifferentPixels, hasTransparency, type TileVerification } from '@/lib/verify';
+
+// Name of the report inside result zips and next to command line outputs
+export const VERIFICATION_FILE_NAME = 'verification.json';
+
+// Upper bound on the samples held per image while comparing
+const CHUNK_BYTES = 64 * 1024 * 1024;
+
+export interface TileCheck {
+  inputHash: string;
+  outputHash: string;
+  differentPixels: number | null;  // Null when the areas differ in size
+  translucent: boolean;  // The input has pixels that are not fully opaque
+}
+
+// RGBA samples of `area`, at the bit depth the page was composited in
+async function readSamples(image: sharp.Sharp, area: Placement, sixteenBit: boolean): Promise<Buffer> {
+  return image
+    .extract(area)
+    .ensureAlpha()
+    .toColourspace(sixteenBit ? 'rgb16' : 'srgb')
+    .raw({ depth: sixteenBit ? 'ushort' : 'uchar' })
+    .toBuffer();
+}
+
+// 16-bit samples are compared as numbers rather than bytes
+const asSamples = (data: Buffer, sixteenBit: boolean): ArrayLike<number> =>
+  sixteenBit ? new Uint16Array(data.buffer.slice(data.byteOffset, data.byteOffset + data.length)) : data;
+
+// Visit `area` of an image in horizontal bands small enough to hold in memory
+async function forEachBand(
+  area: Placement,
+  sixteenBit: boolean,
+  visit: (band: Placement) => Promise<void>
+): Promise<void> {
+  const bytesPerRow = area.width * 4 * (sixteenBit ? 2 : 1);
+  const rows = Math.max(1, Math.floor(CHUNK_BYTES / bytesPerRow));
+  for (let top = 0; top < area.height; top += rows) {
+    await visit({ left: area.left, top: area.top + top, width: area.width, height: Math.min(rows, area.height - top) });
+  }
+}
+
+/**
+ * Read an image that was placed on a page back out of the encoded page and
+ * compare it with what went in. `openInput` and `openPage` return fresh
+ * pipelines; `inputArea` is the part of the input that was laid out and
+ * `placement` where it ended up. Both are hashed; pixels are only compared
+ * when the sizes match, since a resized image cannot be identical.
+ */
+export async function checkTile(
+  openInput: () => sharp.Sharp,
+  inputArea: Placement,
+  openPage: () => sharp.Sharp,
+  placement: Placement,
+  sixteenBit: boolean
+): Promise<TileCheck> {
+  const inputHash = createHash('sha256');
+  const outputHash = createHash('sha256');
+  const max = sixteenBit ? 65535 : 255;
+  let translucent = false;
+
+  const hashInput = async (band: Placement) => {
+    const data = await readSamples(openInput(), band, sixteenBit);
+    inputHash.update(data);
+    translucent ||= hasTransparency(asSamples(data, sixteenBit), max);
+    return data;
+  };
+  const hashOutput = async (band: Placement) => {
+    const data = await readSamples(openPage(), band, sixteenBit);
+    outputHash.update(data);
+    return data;
+  };
+
+  if (inputArea.width !== placement.width || inputArea.height !== placement.height) {
+    await forEachBand(inputArea, sixteenBit, async (band) => {
+      await hashInput(band);
+    });
+    await forEachBand(placement, sixteenBit, async (band) => {
+      await hashOutput(band);
+    });
+    return { inputHash: inputHash.digest('hex'), outputHash: outputHash.digest('hex'), differentPixels: null, translucent };
+  }
+
+  // Same size: walk both in step, with band offsets relative to each image's area
+  let differentPixels = 0;
+  await forEachBand({ ...placement, left: 0, top: 0 }, sixteenBit, async (band) => {
+    const input = await hashInput({ ...band, left: inputArea.left, top: inputArea.top + band.top });
+    const output = await hashOutput({ ...band, left: placement.left, top: placement.top + band.top });
+    differentPixels += countDifferentPixels(asSamples(input, sixteenBit), asSamples(output, sixteenBit));
+  });
+  return { inputHash: inputHash.digest('hex'), outputHash: outputHash.digest('hex'), differentPixels, translucent };
+}
+
+/** Write the verification report of a merge into `dir`, returning its path. */
+export async function writeVerificationReport(tiles: TileVerification[], dir: string): Promise<string> {
+  const reportPath = path.join(dir, VERIFICATION_FILE_NAME);
+  await writeFile(reportPath, JSON.stringify(buildVerificationReport(tiles), null, 2));
+  return reportPath;
+}
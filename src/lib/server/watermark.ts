@@ -0,0 +1,76 @@
+import sharp from 'sharp';
+import type { Placement, Size } from '@/lib/layout';
+import {
+  TEXT_LINE_HEIGHT,
+  TEXT_REFERENCE_SIZE,
+  WATERMARK_FONT_FAMILY,
+  watermarkPlacements,
+  type WatermarkOptions,
+} from '@/lib/watermark';
+
+const TRANSPARENT = { r: 0, g: 0, b: 0, alpha: 0 };
+
+const escapeMarkup = (text: string) =>
+  text.replace(/[<>&'"]/g, (char) => `&#${char.charCodeAt(0)};`);
+
+export interface Watermark {
+  size: Size;  // Natural size, used to place it
+  overlays: (area: Placement) => Promise<sharp.OverlayOptions[]>;  // Composite operations covering `area`
+}
+
+/**
+ * Prepare the configured watermark for compositing, or return undefined when
+ * there is none. Image watermarks are read from `imagePath`; text is rendered
+ * with Pango at the size of each placement. Renders are cached by size, since
+ * per-tile watermarks usually repeat the same few sizes.
+ */
+export async function loadWatermark(
+  options: WatermarkOptions,
+  imagePath: string | undefined,
+  inputOptions: sharp.SharpOptions
+): Promise<Watermark | undefined> {
+  let size: Size;
+  let render: (width: number, height: number) => sharp.Sharp;
+
+  if (options.kind === 'image' && imagePath) {
+    const { autoOrient } = await sharp(imagePath, inputOptions).metadata();
+    size = autoOrient;
+    render = (width, height) =>
+      sharp(imagePath, inputOptions).autoOrient().resize(width, height, { fit: 'fill' });
+  } else if (options.kind === 'text' && options.text) {
+    const markup = `<span foreground="${options.color}">${escapeMarkup(options.text)}</span>`;
+    const { info } = await sharp({
+      text: { text: markup, font: `${WATERMARK_FONT_FAMILY} ${TEXT_REFERENCE_SIZE}`, dpi: 72, rgba: true },
+    }).toBuffer({ resolveWithObject: true });
+    size = { width: info.width, height: TEXT_REFERENCE_SIZE * TEXT_LINE_HEIGHT };
+    render = (width, height) =>
+      sharp({ text: { text: markup, font: WATERMARK_FONT_FAMILY, width, height, rgba: true, align: 'centre' } })
+        .resize(width, height, { fit: 'contain', background: TRANSPARENT });
+  } else {
+    return undefined;
+  }
+
+  const cache = new Map<string, Promise<Buffer>>();
+  const renderAt = (width: number, height: number) => {
+    const key = `${width}x${height}`;
+    if (!cache.has(key)) {
+      cache.set(key, render(width, height)
+        .ensureAlpha()
+        .linear([1, 1, 1, options.opacity / 100], [0, 0, 0, 0])
+        .png()
+        .toBuffer());
+    }
+    return cache.get(key)!;
+  };
+
+  return {
+    size,
+    overlays: async (area) => Promise.all(
+      watermarkPlacements(area, size, options).map(async ({ left, top, width, height }) => ({
+        input: await renderAt(width, height),
+        left,
+        top,
+      }))
+    ),
+  };
+}
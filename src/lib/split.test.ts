@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { LayoutError } from '@/lib/layout';
+import { computeSplit, DEFAULT_SPLIT_SPEC, tileFileName, type SplitSpec } from '@/lib/split';
+
+const spec = (overrides: Partial<SplitSpec>): SplitSpec => ({ ...DEFAULT_SPLIT_SPEC, ...overrides });
+
+describe('computeSplit', () => {
+  it('keeps the remainder in the last row and column of fixed-size tiles', () => {
+    const tiles = computeSplit({ width: 250, height: 130 }, spec({ mode: 'size', tileWidth: 100, tileHeight: 50 }));
+    expect(tiles).toHaveLength(9);
+    expect(tiles.slice(0, 3).map(({ left, width }) => [left, width])).toEqual([[0, 100], [100, 100], [200, 50]]);
+    expect(tiles[8]).toEqual({ left: 200, top: 100, width: 50, height: 30, row: 2, col: 2 });
+  });
+
+  it('spreads the remainder over an even grid', () => {
+    const tiles = computeSplit({ width: 10, height: 7 }, spec({ mode: 'grid', rows: 2, cols: 3 }));
+    expect(tiles.map(({ left, top, width, height }) => [left, top, width, height])).toEqual([
+      [0, 0, 3, 4], [3, 0, 4, 4], [7, 0, 3, 4],
+      [0, 4, 3, 3], [3, 4, 4, 3], [7, 4, 3, 3],
+    ]);
+  });
+
+  it('cuts full-width strips with a shorter last strip', () => {
+    const tiles = computeSplit({ width: 300, height: 250 }, spec({ mode: 'strips', stripHeight: 100 }));
+    expect(tiles.map(({ top, width, height }) => [top, width, height])).toEqual([[0, 300, 100], [100, 300, 100], [200, 300, 50]]);
+  });
+
+  it('rejects grids finer than the image and splits into too many tiles', () => {
+    expect(() => computeSplit({ width: 2, height: 100 }, spec({ mode: 'grid', rows: 1, cols: 3 }))).toThrow(LayoutError);
+    expect(() => computeSplit({ width: 10_001, height: 1 }, spec({ mode: 'size', tileWidth: 1, tileHeight: 1 }))).toThrow(
+      LayoutError
+    );
+  });
+});
+
+describe('tileFileName', () => {
+  it('numbers strips by row, zero-padded to the last one', () => {
+    const tiles = computeSplit({ width: 10, height: 120 }, spec({ mode: 'strips', stripHeight: 10 }));
+    expect(tileFileName('photo', tiles[0], tiles, 'png')).toBe('photo-01.png');
+    expect(tileFileName('photo', tiles[11], tiles, 'png')).toBe('photo-12.png');
+  });
+
+  it('names grid tiles by row and column, each padded on its own', () => {
+    const tiles = computeSplit({ width: 30, height: 100 }, spec({ mode: 'grid', rows: 10, cols: 3 }));
+    expect(tileFileName('photo', tiles[0], tiles, 'jpg')).toBe('photo-r01-c1.jpg');
+    expect(tileFileName('photo', tiles[29], tiles, 'jpg')).toBe('photo-r10-c3.jpg');
+  });
+});
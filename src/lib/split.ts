@@ -0,0 +1,95 @@
+import { LayoutError, type Placement, type Size } from '@/lib/layout';
+
+export type SplitMode = 'size' | 'grid' | 'strips';
+
+export interface SplitSpec {
+  mode: SplitMode;
+  tileWidth: number;  // Fixed tile size for `size`; edge tiles keep the remainder
+  tileHeight: number;
+  rows: number;  // Even grid for `grid`
+  cols: number;
+  stripHeight: number;  // Full-width strips of at most this height for `strips`
+}
+
+export interface SplitTile extends Placement {
+  row: number;
+  col: number;
+}
+
+export const DEFAULT_SPLIT_SPEC: SplitSpec = {
+  mode: 'grid',
+  tileWidth: 1080,
+  tileHeight: 1080,
+  rows: 2,
+  cols: 2,
+  stripHeight: 1200,
+};
+
+export const SPLIT_MODE_LABELS: Record<SplitMode, string> = {
+  size: 'Fixed tile size',
+  grid: 'Rows × columns',
+  strips: 'Strips of max height',
+};
+
+// Refuse specs that would produce an unmanageable number of files
+export const MAX_SPLIT_TILES = 10_000;
+
+// Segments of `length` pixels, each `step` long except possibly the last
+const fixedCuts = (length: number, step: number) => {
+  const cuts: Array<[number, number]> = [];
+  for (let start = 0; start < length; start += step) {
+    cuts.push([start, Math.min(step, length - start)]);
+  }
+  return cuts;
+};
+
+// `count` segments of `length` pixels whose sizes differ by at most one
+const evenCuts = (length: number, count: number) =>
+  Array.from({ length: count }, (_, i): [number, number] => {
+    const start = Math.round((i * length) / count);
+    return [start, Math.round(((i + 1) * length) / count) - start];
+  });
+
+/**
+ * Cut an image of `size` into tiles, listed row by row. Throws a
+ * `LayoutError` for specs that cannot be met, such as more rows than the
+ * image has pixels.
+ */
+export function computeSplit(size: Size, spec: SplitSpec): SplitTile[] {
+  let columns: Array<[number, number]>;
+  let rows: Array<[number, number]>;
+
+  if (spec.mode === 'grid') {
+    if (spec.cols > size.width || spec.rows > size.height) {
+      throw new LayoutError(
+        `A ${size.width} × ${size.height} image cannot be split into ${spec.rows} × ${spec.cols} tiles`
+      );
+    }
+    columns = evenCuts(size.width, spec.cols);
+    rows = evenCuts(size.height, spec.rows);
+  } else if (spec.mode === 'strips') {
+    columns = [[0, size.width]];
+    rows = fixedCuts(size.height, spec.stripHeight);
+  } else {
+    columns = fixedCuts(size.width, spec.tileWidth);
+    rows = fixedCuts(size.height, spec.tileHeight);
+  }
+
+  const count = columns.length * rows.length;
+  if (count > MAX_SPLIT_TILES) {
+    throw new LayoutError(`Splitting would produce ${count.toLocaleString()} tiles, more than the ${MAX_SPLIT_TILES.toLocaleString()} allowed`);
+  }
+
+  return rows.flatMap(([top, height], row) =>
+    columns.map(([left, width], col) => ({ left, top, width, height, row, col }))
+  );
+}
+
+/** File name of a tile, numbered from 1 and zero-padded so names sort in reading order. */
+export function tileFileName(baseName: string, tile: SplitTile, tiles: SplitTile[], extension: string): string {
+  const last = tiles[tiles.length - 1];
+  const pad = (value: number, max: number) => String(value + 1).padStart(String(max + 1).length, '0');
+  return last.col === 0
+    ? `${baseName}-${pad(tile.row, last.row)}.${extension}`
+    : `${baseName}-r${pad(tile.row, last.row)}-c${pad(tile.col, last.col)}.${extension}`;
+}
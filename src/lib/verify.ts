@@ -0,0 +1,85 @@
+import type { Placement, Size } from '@/lib/layout';
+
+/**
+ * `lossless`: the output holds exactly the processed input's pixels.
+ * `altered`: the pixels differ, as the settings intended (see `reasons`).
+ * `mismatch`: the pixels differ and nothing explains why.
+ */
+export type TileStatus = 'lossless' | 'altered' | 'mismatch';
+
+export interface TileVerification {
+  index: number;  // 1-based position in the merge queue
+  name: string;
+  group?: string;  // Batch merges only
+  page: number;  // 1-based output page
+  placement: Placement;  // Where the image sits on its page
+  status: TileStatus;
+  reasons: string[];  // Settings that change the image's pixels on purpose
+  inputHash: string;  // SHA-256 of the processed input's RGBA samples
+  outputHash: string;  // SHA-256 of the same samples read back from the output
+  differentPixels: number | null;  // Null when sizes differ and pixels cannot be compared
+}
+
+export interface VerificationReport {
+  lossless: boolean;  // Every tile came through unchanged
+  counts: Record<TileStatus, number>;
+  tiles: TileVerification[];
+}
+
+export const TILE_STATUS_LABELS: Record<TileStatus, string> = {
+  lossless: 'Lossless',
+  altered: 'Intentionally not lossless',
+  mismatch: 'Mismatch',
+};
+
+/** Reason given for an image the layout scaled. */
+export function resizedReason(from: Size, to: Size): string {
+  return `resized from ${from.width} × ${from.height} to ${to.width} × ${to.height}`;
+}
+
+export function overlaps(a: Placement, b: Placement): boolean {
+  return a.left < b.left + b.width && b.left < a.left + a.width &&
+    a.top < b.top + b.height && b.top < a.top + a.height;
+}
+
+/**
+ * Count the pixels that differ between two RGBA sample arrays of the same
+ * size. Fully transparent pixels are equal whatever their colour, since
+ * encoders are free to discard it.
+ */
+export function countDifferentPixels(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let different = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    if (a[i + 3] === 0 && b[i + 3] === 0) continue;
+    if (a[i] !== b[i] || a[i + 1] !== b[i + 1] || a[i + 2] !== b[i + 2] || a[i + 3] !== b[i + 3]) {
+      different++;
+    }
+  }
+  return different;
+}
+
+// Whether any pixel is partly or fully transparent, given the maximum sample value
+export function hasTransparency(samples: ArrayLike<number>, max: number): boolean {
+  for (let i = 3; i < samples.length; i += 4) {
+    if (samples[i] !== max) return true;
+  }
+  return false;
+}
+
+/** Status of a tile from its comparison result and the intended changes. */
+export function tileStatus(differentPixels: number | null, reasons: string[]): TileStatus {
+  if (differentPixels === 0) return 'lossless';
+  return reasons.length > 0 ? 'altered' : 'mismatch';
+}
+
+export function buildVerificationReport(tiles: TileVerification[]): VerificationReport {
+  const counts: Record<TileStatus, number> = { lossless: 0, altered: 0, mismatch: 0 };
+  tiles.forEach((tile) => counts[tile.status]++);
+  return { lossless: counts.lossless === tiles.length, counts, tiles };
+}
+
+/** SHA-256 of pixel samples as hex, for hashing canvas pixels in the browser. */
+export async function hashSamples(samples: Uint8ClampedArray<ArrayBuffer>): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', samples);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
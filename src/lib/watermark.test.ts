@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_WATERMARK_OPTIONS, watermarkPlacements, type WatermarkOptions } from '@/lib/watermark';
+
+const options = (overrides: Partial<WatermarkOptions>): WatermarkOptions => ({
+  ...DEFAULT_WATERMARK_OPTIONS,
+  kind: 'image',
+  ...overrides,
+});
+
+describe('watermarkPlacements', () => {
+  // An image placed at (10, 20) on the merged page
+  const area = { left: 10, top: 20, width: 200, height: 100 };
+  const mark = { width: 50, height: 25 };
+
+  it('places the watermark once, scaled to the area width and kept clear of the edges', () => {
+    expect(watermarkPlacements(area, mark, options({ position: 'bottom-right', scale: 20, margin: 16 }))).toEqual([
+      { left: 154, top: 84, width: 40, height: 20 },
+    ]);
+    expect(watermarkPlacements(area, mark, options({ position: 'top-left', scale: 20, margin: 16 }))).toEqual([
+      { left: 26, top: 36, width: 40, height: 20 },
+    ]);
+    // Centred watermarks ignore the margin
+    expect(watermarkPlacements(area, mark, options({ position: 'center', scale: 20, margin: 16 }))).toEqual([
+      { left: 90, top: 60, width: 40, height: 20 },
+    ]);
+  });
+
+  it('shrinks the margin and the watermark to stay inside small areas', () => {
+    const small = { left: 0, top: 0, width: 50, height: 30 };
+    expect(watermarkPlacements(small, { width: 40, height: 20 }, options({ position: 'top-left', scale: 100 }))).toEqual([
+      { left: 0, top: 2, width: 50, height: 25 },
+    ]);
+    // Too tall at the requested scale, so it is fitted to the height instead
+    const strip = { left: 0, top: 0, width: 200, height: 20 };
+    expect(watermarkPlacements(strip, mark, options({ scale: 50, margin: 0 }))).toEqual([
+      { left: 160, top: 0, width: 40, height: 20 },
+    ]);
+  });
+
+  it('repeats a centred grid across the area when tiling, ignoring the position', () => {
+    const page = { left: 0, top: 0, width: 100, height: 50 };
+    const placements = watermarkPlacements(
+      page,
+      { width: 20, height: 10 },
+      options({ tile: true, position: 'top-left', scale: 20, margin: 10 })
+    );
+    expect(placements).toHaveLength(9);
+    expect(placements[0]).toEqual({ left: 10, top: 0, width: 20, height: 10 });
+    expect(placements[8]).toEqual({ left: 70, top: 40, width: 20, height: 10 });
+  });
+
+  it('tiles each image within its own area', () => {
+    const placements = watermarkPlacements(area, mark, options({ tile: true, scale: 20, margin: 10 }));
+    expect(placements.every((placement) =>
+      placement.left >= area.left && placement.left + placement.width <= area.left + area.width &&
+      placement.top >= area.top && placement.top + placement.height <= area.top + area.height
+    )).toBe(true);
+    // Four columns of 40 with 10 between them, centred in 200
+    expect(placements.slice(0, 4).map((placement) => placement.left)).toEqual([15, 65, 115, 165]);
+  });
+});
@@ -0,0 +1,163 @@
+import type { CrossAlign, Placement, Size } from '@/lib/layout';
+
+export type WatermarkKind = 'none' | 'image' | 'text';
+export type WatermarkTarget = 'merged' | 'tile';
+export type WatermarkPosition =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+export interface WatermarkOptions {
+  kind: WatermarkKind;
+  target: WatermarkTarget;  // The whole merged page, or every image on it
+  text: string;  // For text watermarks
+  color: string;  // Hex text colour
+  position: WatermarkPosition;  // Ignored when tiling
+  opacity: number;  // 0-100
+  scale: number;  // Watermark width as a percentage of the target width
+  tile: boolean;  // Repeat across the target instead of placing once
+  margin: number;  // Distance from the target's edges and between repeats, in pixels
+}
+
+export const DEFAULT_WATERMARK_OPTIONS: WatermarkOptions = {
+  kind: 'none',
+  target: 'merged',
+  text: '',
+  color: '#ffffff',
+  position: 'bottom-right',
+  opacity: 50,
+  scale: 20,
+  tile: false,
+  margin: 16,
+};
+
+export const WATERMARK_POSITIONS: readonly WatermarkPosition[] = [
+  'top-left', 'top', 'top-right',
+  'left', 'center', 'right',
+  'bottom-left', 'bottom', 'bottom-right',
+];
+
+export const WATERMARK_FONT_FAMILY = 'sans-serif';
+export const MAX_WATERMARK_TEXT_LENGTH = 200;
+
+// Horizontal and vertical alignment of each position
+const POSITION_ALIGN: Record<WatermarkPosition, [CrossAlign, CrossAlign]> = {
+  'top-left': ['start', 'start'],
+  top: ['center', 'start'],
+  'top-right': ['end', 'start'],
+  left: ['start', 'center'],
+  center: ['center', 'center'],
+  right: ['end', 'center'],
+  'bottom-left': ['start', 'end'],
+  bottom: ['center', 'end'],
+  'bottom-right': ['end', 'end'],
+};
+
+// Start of an item of `size` aligned inside [0, space) with `margin` kept clear where possible
+const alignWithMargin = (space: number, size: number, margin: number, align: CrossAlign): number => {
+  const free = Math.max(0, space - size);
+  if (align === 'center') return Math.floor(free / 2);
+  const inset = Math.min(margin, Math.floor(free / 2));
+  return align === 'start' ? inset : free - inset;
+};
+
+/**
+ * Where the watermark is drawn within `area`: once at the configured
+ * position, or repeated in a centred grid when tiling. `mark` is the
+ * watermark's natural size; it is scaled to `scale` percent of the area's
+ * width, shrinking further if needed so that it never leaves the area.
+ */
+export function watermarkPlacements(area: Placement, mark: Size, options: WatermarkOptions): Placement[] {
+  const fit = Math.min(
+    (area.width * options.scale) / 100 / mark.width,
+    area.height / mark.height
+  );
+  const width = Math.max(1, Math.min(area.width, Math.round(mark.width * fit)));
+  const height = Math.max(1, Math.min(area.height, Math.round(mark.height * fit)));
+
+  if (!options.tile) {
+    const [alignX, alignY] = POSITION_ALIGN[options.position];
+    return [{
+      left: area.left + alignWithMargin(area.width, width, options.margin, alignX),
+      top: area.top + alignWithMargin(area.height, height, options.margin, alignY),
+      width,
+      height,
+    }];
+  }
+
+  const { margin } = options;
+  const cols = Math.max(1, Math.floor((area.width + margin) / (width + margin)));
+  const rows = Math.max(1, Math.floor((area.height + margin) / (height + margin)));
+  const left = area.left + Math.max(0, Math.floor((area.width - cols * width - (cols - 1) * margin) / 2));
+  const top = area.top + Math.max(0, Math.floor((area.height - rows * height - (rows - 1) * margin) / 2));
+
+  const placements: Placement[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      placements.push({ left: left + col * (width + margin), top: top + row * (height + margin), width, height });
+    }
+  }
+  return placements;
+}
+
+// Text is measured at this font size and scales linearly with it, in the browser and on the server
+export const TEXT_REFERENCE_SIZE = 100;
+// Height of a line of text as a multiple of its font size
+export const TEXT_LINE_HEIGHT = 1.2;
+
+/**
+ * Where `drawWatermark` draws within `area`, measuring text watermarks
+ * with `ctx`. Empty when there is nothing to draw.
+ */
+export function canvasWatermarkPlacements(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  area: Placement,
+  options: WatermarkOptions,
+  image?: CanvasImageSource & Size
+): Placement[] {
+  if (options.kind === 'none' || (options.kind === 'image' && !image) || (options.kind === 'text' && !options.text)) {
+    return [];
+  }
+  if (options.kind === 'image' && image) {
+    return watermarkPlacements(area, image, options);
+  }
+  ctx.font = `${TEXT_REFERENCE_SIZE}px ${WATERMARK_FONT_FAMILY}`;
+  const mark = { width: Math.max(1, ctx.measureText(options.text).width), height: TEXT_REFERENCE_SIZE * TEXT_LINE_HEIGHT };
+  return watermarkPlacements(area, mark, options);
+}
+
+/**
+ * Draw the watermark over `area` of a canvas: `image` for image
+ * watermarks, or the configured text, which is sized by measuring it.
+ */
+export function drawWatermark(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  area: Placement,
+  options: WatermarkOptions,
+  image?: CanvasImageSource & Size
+) {
+  ctx.save();
+  ctx.globalAlpha = options.opacity / 100;
+
+  const placements = canvasWatermarkPlacements(ctx, area, options, image);
+  if (options.kind === 'image' && image) {
+    for (const placement of placements) {
+      ctx.drawImage(image, placement.left, placement.top, placement.width, placement.height);
+    }
+  } else {
+    ctx.fillStyle = options.color;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    for (const placement of placements) {
+      ctx.font = `${placement.height / TEXT_LINE_HEIGHT}px ${WATERMARK_FONT_FAMILY}`;
+      ctx.fillText(
+        options.text,
+        placement.left + placement.width / 2,
+        placement.top + placement.height / 2,
+        placement.width
+      );
+    }
+  }
+
+  ctx.restore();
+}
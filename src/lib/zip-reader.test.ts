@@ -0,0 +1,33 @@
+import { strToU8, zipSync } from 'fflate';
+import { describe, expect, it } from 'vitest';
+import { readPyramid } from '@/lib/pyramid';
+import { openZip, ZipError } from '@/lib/zip-reader';
+
+const archive = (files: Record<string, Uint8Array>, level: 0 | 6) =>
+  new Blob([zipSync(files, { level, comment: 'archive comment' }) as BlobPart]);
+
+describe('openZip', () => {
+  it('reads stored and deflated entries by name', async () => {
+    const files = { 'a.txt': strToU8('first'), 'dir/b.txt': strToU8('second '.repeat(50)) };
+    for (const level of [0, 6] as const) {
+      const zip = await openZip(archive(files, level));
+      expect(zip.names).toEqual(['a.txt', 'dir/b.txt']);
+      expect(await zip.read('dir/b.txt')).toEqual(files['dir/b.txt']);
+      expect(await zip.read('missing')).toBeUndefined();
+    }
+  });
+
+  it('rejects data that is not a zip', async () => {
+    await expect(openZip(new Blob([strToU8('not a zip')]))).rejects.toThrow(ZipError);
+  });
+});
+
+describe('readPyramid', () => {
+  it('reads a DeepZoom descriptor and names its tiles', async () => {
+    const dzi = '<Image TileSize="256" Overlap="0" Format="jpeg"><Size Width="1000" Height="600"/></Image>';
+    const zip = await openZip(archive({ 'out.dzi': strToU8(dzi), 'out_files/10/0_0.jpeg': new Uint8Array(1) }, 0));
+    const pyramid = await readPyramid(zip);
+    expect(pyramid).toMatchObject({ layout: 'dz', width: 1000, height: 600, tileSize: 256, maxLevel: 10 });
+    expect(pyramid.tileName(0, 1, 2)).toBe('out_files/10/1_2.jpeg');
+  });
+});
@@ -0,0 +1,98 @@
+import { inflateSync } from 'fflate';
+
+// Record signatures and sizes from the ZIP specification
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const CENTRAL_DIRECTORY_ENTRY_SIZE = 46;
+const LOCAL_HEADER = 0x04034b50;
+const LOCAL_HEADER_SIZE = 30;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipError';
+  }
+}
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  headerOffset: number;  // Of the entry's local header
+}
+
+/**
+ * A zip archive read in place: only its central directory is loaded, and
+ * each entry is sliced out of the blob and inflated when it is read.
+ */
+export interface ZipReader {
+  names: string[];
+  read: (name: string) => Promise<Uint8Array | undefined>;
+}
+
+const bytesOf = async (blob: Blob, start: number, end: number) =>
+  new DataView(await blob.slice(start, end).arrayBuffer());
+
+/** Index the entries of a zip without reading their contents. ZIP64 archives are not supported. */
+export async function openZip(blob: Blob): Promise<ZipReader> {
+  // The end record sits behind an optional comment at the very end
+  const tailStart = Math.max(0, blob.size - END_OF_CENTRAL_DIRECTORY_SIZE - MAX_COMMENT_LENGTH);
+  const tail = await bytesOf(blob, tailStart, blob.size);
+  let end = tail.byteLength - END_OF_CENTRAL_DIRECTORY_SIZE;
+  while (end >= 0 && tail.getUint32(end, true) !== END_OF_CENTRAL_DIRECTORY) end--;
+  if (end < 0) {
+    throw new ZipError('Not a zip archive');
+  }
+
+  const entryCount = tail.getUint16(end + 10, true);
+  const directorySize = tail.getUint32(end + 12, true);
+  const directoryOffset = tail.getUint32(end + 16, true);
+  if (entryCount === 0xffff || directorySize === 0xffffffff || directoryOffset === 0xffffffff) {
+    throw new ZipError('ZIP64 archives are not supported');
+  }
+
+  const directory = await bytesOf(blob, directoryOffset, directoryOffset + directorySize);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+  let offset = 0;
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + CENTRAL_DIRECTORY_ENTRY_SIZE > directory.byteLength ||
+        directory.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new ZipError('Damaged zip central directory');
+    }
+    const nameLength = directory.getUint16(offset + 28, true);
+    const extraLength = directory.getUint16(offset + 30, true);
+    const commentLength = directory.getUint16(offset + 32, true);
+    const nameStart = directory.byteOffset + offset + CENTRAL_DIRECTORY_ENTRY_SIZE;
+    const name = decoder.decode(new Uint8Array(directory.buffer, nameStart, nameLength));
+    entries.set(name, {
+      method: directory.getUint16(offset + 10, true),
+      compressedSize: directory.getUint32(offset + 20, true),
+      headerOffset: directory.getUint32(offset + 42, true),
+    });
+    offset += CENTRAL_DIRECTORY_ENTRY_SIZE + nameLength + extraLength + commentLength;
+  }
+
+  const read = async (name: string): Promise<Uint8Array | undefined> => {
+    const entry = entries.get(name);
+    if (!entry) return undefined;
+
+    // The local header repeats the name and has its own extra field, so the data starts after both
+    const header = await bytesOf(blob, entry.headerOffset, entry.headerOffset + LOCAL_HEADER_SIZE);
+    if (header.byteLength < LOCAL_HEADER_SIZE || header.getUint32(0, true) !== LOCAL_HEADER) {
+      throw new ZipError(`Damaged zip entry ${name}`);
+    }
+    const dataStart = entry.headerOffset + LOCAL_HEADER_SIZE + header.getUint16(26, true) + header.getUint16(28, true);
+    const data = new Uint8Array(await blob.slice(dataStart, dataStart + entry.compressedSize).arrayBuffer());
+
+    if (entry.method === STORED) return data;
+    if (entry.method === DEFLATED) return inflateSync(data);
+    throw new ZipError(`Zip entry ${name} uses unsupported compression method ${entry.method}`);
+  };
+
+  return { names: Array.from(entries.keys()), read };
+}